@@ -1,15 +1,23 @@
 import { LightningElement, api } from "lwc";
 
-///TEMPLATE_IMPORTS///
+{% each imports as field %}
+import {% field.importName %} from "@salesforce/schema/{% objectApiName %}.{% field.fieldPath %}";
+{% endeach %}
 
-export default class Create///TEMPLATE_OBJECT_API_NAME///Record
+export default class Create{% objectApiName %}Record
 extends LightningElement {
   @api recordId;
   @api objectApiName;
 
-  ///TEMPLATE_VARIABLES///
+{% each formFields as field %}
+  {% field.fieldVariable %} = {% field.importName %};
+{% endeach %}
 
-  ///TEMPLATE_VARIABLE_ASSIGNMENTS///
+{% each createFields as field %}
+{% if field.bindValue %}
+  {% field.valueVariable %} = {% field.initialValue | raw %};
+{% endif %}
+{% endeach %}
 
   onSuccess(event) {
     console.log("Created record", event.detail);
@@ -1,20 +1,24 @@
 import { LightningElement, api, wire } from "lwc";
 import { getRecord } from "lightning/uiRecordApi";
 
-///TEMPLATE_IMPORTS///
+{% each imports as field %}
+import {% field.importName %} from "@salesforce/schema/{% objectApiName %}.{% field.fieldPath %}";
+{% endeach %}
 
-export default class Edit///TEMPLATE_OBJECT_API_NAME///Record 
+export default class Edit{% objectApiName %}Record 
 extends LightningElement {
   @api recordId;
   @api objectApiName;
 
-  ///TEMPLATE_VARIABLES///
+{% each formFields as field %}
+  {% field.fieldVariable %} = {% field.importName %};
+{% endeach %}
 
-  @wire(getRecord, { recordId: "$recordId", fields: [NAME_FIELD] })
+  @wire(getRecord, { recordId: "$recordId", fields: [{% nameField.importName %}] })
   record;
 
   get name() {
-    return this.record?.data?.fields?.Name?.value || "";
+    return this.record?.data?.fields?.{% nameField.apiName %}?.value || "";
   }
 
   onSuccess(event) {
@@ -1,23 +1,31 @@
 import { LightningElement, api, wire } from "lwc";
 import { getRecord } from "lightning/uiRecordApi";
 
-///TEMPLATE_IMPORTS///
+{% each imports as field %}
+import {% field.importName %} from "@salesforce/schema/{% objectApiName %}.{% field.fieldPath %}";
+{% endeach %}
 
-export default class View///TEMPLATE_OBJECT_API_NAME///Record 
+export default class View{% objectApiName %}Record 
 extends LightningElement {
   @api recordId;
   @api objectApiName;
 
   get fields() {
     return [
-      ///TEMPLATE_FIELDS///
+{% each viewFields as field %}
+      {% field.importName %}{% if !@last %},{% endif %}
+{% endeach %}
     ];
   }
 
-  @wire(getRecord, { recordId: "$recordId", fields: "$fields" })
+  @wire(getRecord, {
+    recordId: "$recordId",
+    fields: "$fields",
+    optionalFields: [{% nameField.importName %}]
+  })
   record;
 
   get name() {
-    return this.record?.data?.fields?.Name?.value ?? "";
+    return this.record?.data?.fields?.{% nameField.apiName %}?.value ?? "";
   }
 }
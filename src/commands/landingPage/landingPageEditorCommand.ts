@@ -0,0 +1,398 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { commands, l10n, ExtensionContext, Uri } from 'vscode';
+import * as path from 'path';
+import { writeFile } from 'fs/promises';
+import { InstructionsWebviewProvider } from '../../webviews/instructions';
+import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { Field, OrgUtils } from '../../utils/orgUtils';
+import { UEMBuilder } from '../../utils/uemBuilder';
+import { LandingPageBackups } from '../../utils/landingPageBackups';
+import { StaticResourceMetadata } from '../../utils/staticResourceMetadata';
+import { UEMParser } from '../../utils/uemParser';
+import { LandingPageCommand } from '../wizard/landingPageCommand';
+import { TemplateChooserCommand } from '../wizard/templateChooserCommand';
+import type { UEMCard, UEMDocument } from '../../types';
+
+const landingPageEditorCommand =
+    'salesforcedx-vscode-offline-app.landingPageEditor';
+
+export type CardType = 'globalActions' | 'recordList' | 'timedList';
+
+/**
+ * The editable parameters of a card, as exchanged with the editor webview.
+ */
+export type CardConfig = {
+    type: CardType;
+    label?: string;
+    objectApiName?: string;
+    fields?: string[];
+    startTimeField?: string;
+    endTimeField?: string;
+    orderByField?: string;
+    isAscending?: boolean;
+    size?: number;
+    swipeActions?: string[];
+};
+
+/**
+ * A card of the landing page. Cards the editor does not know how to configure (ie: hand-edited ones)
+ * have no config, and can only be moved or removed. Cards are saved back to the container they were
+ * loaded from, the first one for new cards.
+ */
+export type EditorCard = {
+    card: UEMCard;
+    config?: CardConfig;
+    containerIndex?: number;
+};
+
+export type LandingPageEditorStatus = {
+    error?: string;
+    cards?: EditorCard[];
+};
+
+/**
+ * Shows the cards of the active landing page in a webview, where they can be added, removed, reordered and
+ * edited, then saved back to the static resource.
+ */
+export class LandingPageEditorCommand {
+    static async openEditor(extensionUri: Uri) {
+        return new Promise<void>((resolve) => {
+            new InstructionsWebviewProvider(
+                extensionUri
+            ).showInstructionWebview(
+                l10n.t('Landing Page Editor'),
+                'resources/instructions/landingPageEditor.html',
+                [
+                    {
+                        type: 'getLandingPage',
+                        action: async (_panel, _data, callback) => {
+                            if (callback) {
+                                callback(
+                                    await LandingPageEditorCommand.getLandingPageCards()
+                                );
+                            }
+                        }
+                    },
+                    {
+                        type: 'getSObjects',
+                        action: async (_panel, _data, callback) => {
+                            if (callback) {
+                                try {
+                                    const sobjects =
+                                        await OrgUtils.getSobjects();
+                                    callback({ sobjects });
+                                } catch (err) {
+                                    callback({ error: `${err}` });
+                                }
+                            }
+                        }
+                    },
+                    {
+                        type: 'getFields',
+                        action: async (_panel, data, callback) => {
+                            const { objectApiName } = data as {
+                                objectApiName: string;
+                            };
+                            if (callback) {
+                                try {
+                                    const fields =
+                                        await OrgUtils.getFieldsForSObject(
+                                            objectApiName
+                                        );
+                                    callback({ fields });
+                                } catch (err) {
+                                    callback({ error: `${err}` });
+                                }
+                            }
+                        }
+                    },
+                    {
+                        type: 'buildCard',
+                        action: async (_panel, data, callback) => {
+                            const { config } = data as { config: CardConfig };
+                            if (callback) {
+                                try {
+                                    const card =
+                                        await LandingPageEditorCommand.buildCard(
+                                            config
+                                        );
+                                    callback({ card, config });
+                                } catch (err) {
+                                    callback({ error: `${err}` });
+                                }
+                            }
+                        }
+                    },
+                    {
+                        type: 'saveLandingPage',
+                        action: async (_panel, data, callback) => {
+                            const { cards } = data as { cards: EditorCard[] };
+                            try {
+                                await LandingPageEditorCommand.saveCards(cards);
+                                if (callback) {
+                                    callback({});
+                                }
+                            } catch (err) {
+                                if (callback) {
+                                    callback({ error: `${err}` });
+                                }
+                            }
+                        }
+                    },
+                    {
+                        type: 'closeEditor',
+                        action: (panel) => {
+                            panel.dispose();
+                            return resolve();
+                        }
+                    }
+                ]
+            );
+        });
+    }
+
+    /**
+     * @returns the cards of the existing landing page, or no cards if there is no landing page yet.
+     */
+    static async getLandingPageCards(): Promise<LandingPageEditorStatus> {
+        try {
+            const uem = await LandingPageEditorCommand.loadLandingPage();
+            const containers = uem?.view?.regions?.components?.components ?? [];
+            const cards: EditorCard[] = [];
+            containers.forEach((container, containerIndex) => {
+                for (const card of container.regions?.components?.components ??
+                    []) {
+                    cards.push({
+                        card,
+                        config: LandingPageEditorCommand.getCardConfig(card),
+                        containerIndex
+                    });
+                }
+            });
+            return { cards };
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    }
+
+    /**
+     * Builds a card from its config, using the describe metadata of the org for the field types.
+     */
+    static async buildCard(config: CardConfig): Promise<UEMCard> {
+        const builder = new UEMBuilder();
+
+        if (config.type === 'globalActions') {
+            builder.addGlobalActionCard();
+        } else {
+            if (!config.objectApiName) {
+                throw new Error(l10n.t('An sObject must be selected.'));
+            }
+            const objectApiName = config.objectApiName;
+            const label = config.label || objectApiName;
+            const fields = await OrgUtils.getFieldsForSObject(objectApiName);
+            const findField = (apiName: string | undefined) =>
+                fields.find((field) => field.apiName === apiName);
+            const fieldsToDisplay = (config.fields ?? [])
+                .map((apiName) => findField(apiName))
+                .filter((field): field is Field => field !== undefined);
+            if (fieldsToDisplay.length === 0) {
+                throw new Error(l10n.t('At least one field must be selected.'));
+            }
+
+            if (config.type === 'recordList') {
+                builder.addRecordListCard(
+                    objectApiName,
+                    label,
+                    fieldsToDisplay,
+                    config.orderByField || undefined,
+                    config.isAscending ?? true,
+                    config.size,
+                    config.swipeActions
+                );
+            } else {
+                const startTimeField = findField(config.startTimeField);
+                const endTimeField = findField(config.endTimeField);
+                if (!startTimeField || !endTimeField) {
+                    throw new Error(
+                        l10n.t(
+                            'A Timed List needs both a start and an end field.'
+                        )
+                    );
+                }
+                builder.addTimedListCard(
+                    objectApiName,
+                    label,
+                    startTimeField,
+                    endTimeField,
+                    fieldsToDisplay,
+                    config.orderByField || undefined,
+                    config.isAscending ?? true,
+                    config.size
+                );
+            }
+        }
+
+        return UEMParser.findCards(builder.build())[0];
+    }
+
+    /**
+     * Derives the editable parameters of a card from its UEM.
+     * @returns the config, or undefined if the card is not one the editor can configure.
+     */
+    static getCardConfig(card: UEMCard): CardConfig | undefined {
+        const content = card.regions?.components?.components?.[0];
+        if (!content) {
+            return undefined;
+        }
+
+        switch (content.definition) {
+            case 'mcfp/actionList':
+                return { type: 'globalActions', label: card.properties.label };
+            case 'mcf/list':
+            case 'mcf/timedList': {
+                const properties = content.properties;
+                const fieldMap = properties.fieldMap ?? {};
+                const orderBy = properties.orderBy?.[0] ?? {};
+                const orderByField = Object.keys(orderBy)[0];
+                const config: CardConfig = {
+                    type:
+                        content.definition === 'mcf/list'
+                            ? 'recordList'
+                            : 'timedList',
+                    label: content.label,
+                    objectApiName: properties.objectApiName,
+                    fields: [
+                        fieldMap.mainField,
+                        fieldMap.subField1,
+                        fieldMap.subField2
+                    ].filter((field): field is string => !!field),
+                    orderByField,
+                    isAscending:
+                        orderByField === undefined ||
+                        orderBy[orderByField] !== 'DESC',
+                    size: properties.size
+                };
+                if (content.definition === 'mcf/list') {
+                    config.swipeActions = content.properties.swipeActions;
+                }
+                if (content.definition === 'mcf/timedList') {
+                    config.startTimeField = content.properties.startTimeField;
+                    config.endTimeField = content.properties.endTimeField;
+                }
+                return config;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Replaces the cards of the landing page, keeping the rest of the document as is. Each card goes
+     * back to its container, in the given order. A new landing page (and its metadata) is created if
+     * there is none yet.
+     */
+    static async saveCards(cards: EditorCard[]): Promise<void> {
+        const uem = await LandingPageEditorCommand.loadLandingPage();
+        const filenamePrefix =
+            TemplateChooserCommand.getActiveLandingPageName();
+        const containers = uem?.view?.regions?.components?.components ?? [];
+        const isCardContainer = (containerIndex: number) =>
+            Array.isArray(
+                containers[containerIndex]?.regions?.components?.components
+            );
+        // cards of a container that no longer exists go to the first one
+        const cardsOf = (containerIndex: number) =>
+            cards
+                .filter(({ containerIndex: cardContainerIndex = 0 }) =>
+                    isCardContainer(cardContainerIndex)
+                        ? cardContainerIndex === containerIndex
+                        : containerIndex === 0
+                )
+                .map((editorCard) => editorCard.card);
+
+        // a new landing page is named after the file it is written to
+        let builder = (
+            uem
+                ? UEMBuilder.fromJson(uem)
+                : new UEMBuilder({ apiName: filenamePrefix })
+        ).setCards(cardsOf(0));
+        for (
+            let containerIndex = 1;
+            containerIndex < containers.length;
+            containerIndex++
+        ) {
+            if (isCardContainer(containerIndex)) {
+                builder = UEMBuilder.fromJson(
+                    builder.build(),
+                    containerIndex
+                ).setCards(cardsOf(containerIndex));
+            }
+        }
+        await LandingPageEditorCommand.writeLandingPage(builder);
+    }
+
+    /**
+     * Removes a card of the landing page.
+     * @param containerIndex The position of the container of the card under the view.
+     * @param index The position of the card in its container, in display order.
+     */
+    static async removeCard(
+        containerIndex: number,
+        index: number
+    ): Promise<void> {
+        const uem = await LandingPageEditorCommand.loadLandingPage();
+        if (!uem) {
+            throw new Error(l10n.t('There is no landing page to edit.'));
+        }
+        const builder = UEMBuilder.fromJson(uem, containerIndex).removeCard(
+            index
+        );
+        await LandingPageEditorCommand.writeLandingPage(builder);
+    }
+
+    /**
+     * Writes the active landing page, backing up the previous one, and creates its metadata if there
+     * is none yet.
+     */
+    private static async writeLandingPage(builder: UEMBuilder): Promise<void> {
+        const staticResourcesPath =
+            await WorkspaceUtils.getStaticResourcesDir();
+        const filenamePrefix =
+            TemplateChooserCommand.getActiveLandingPageName();
+
+        await LandingPageBackups.backup(staticResourcesPath, filenamePrefix);
+        await writeFile(
+            path.join(
+                staticResourcesPath,
+                filenamePrefix +
+                    TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+            ),
+            builder.toJson()
+        );
+
+        await StaticResourceMetadata.ensureExists(
+            staticResourcesPath,
+            filenamePrefix
+        );
+    }
+
+    /**
+     * @returns the contents of the active landing page, or undefined if it does not exist.
+     */
+    static async loadLandingPage(): Promise<UEMDocument | undefined> {
+        return LandingPageCommand.loadLandingPage();
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(landingPageEditorCommand, async () => {
+            await LandingPageEditorCommand.openEditor(context.extensionUri);
+        })
+    );
+}
@@ -0,0 +1,233 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { commands, l10n, ExtensionContext, Uri } from 'vscode';
+import { InstructionsWebviewProvider } from '../../webviews/instructions';
+import { OrgUtils, SampleRecord } from '../../utils/orgUtils';
+import { UEMParser } from '../../utils/uemParser';
+import { LandingPageEditorCommand } from './landingPageEditorCommand';
+import type { UEMCard, UEMFieldMap, UEMOrderBy } from '../../types';
+
+const landingPagePreviewCommand =
+    'salesforcedx-vscode-offline-app.previewLandingPage';
+
+export type PreviewRow = {
+    mainField: string;
+    subField1?: string;
+    subField2?: string;
+};
+
+export type PreviewCardType = 'globalActions' | 'list' | 'unsupported';
+
+export type PreviewCard = {
+    type: PreviewCardType;
+    label: string;
+    objectApiName?: string;
+    rows: PreviewRow[];
+    // why the sample records could not be loaded, placeholders are shown instead
+    error?: string;
+};
+
+export type LandingPagePreview = {
+    error?: string;
+    backgroundColor?: string;
+    cards?: PreviewCard[];
+};
+
+/**
+ * Renders an approximation of the active landing page as it appears in the Salesforce Mobile App, so the
+ * layout can be iterated on without deploying.
+ */
+export class LandingPagePreviewCommand {
+    static readonly DEFAULT_LIST_SIZE = 3;
+
+    static async openPreview(extensionUri: Uri) {
+        return new Promise<void>((resolve) => {
+            new InstructionsWebviewProvider(
+                extensionUri
+            ).showInstructionWebview(
+                l10n.t('Landing Page Preview'),
+                'resources/instructions/landingPagePreview.html',
+                [
+                    {
+                        type: 'getPreview',
+                        action: async (_panel, data, callback) => {
+                            const { useOrgData } = data as {
+                                useOrgData: boolean;
+                            };
+                            if (callback) {
+                                callback(
+                                    await LandingPagePreviewCommand.getPreview(
+                                        useOrgData
+                                    )
+                                );
+                            }
+                        }
+                    },
+                    {
+                        type: 'closePreview',
+                        action: (panel) => {
+                            panel.dispose();
+                            return resolve();
+                        }
+                    }
+                ]
+            );
+        });
+    }
+
+    /**
+     * @param useOrgData Whether the lists show records of the org rather than placeholders.
+     * @returns what to render for the active landing page.
+     */
+    static async getPreview(useOrgData: boolean): Promise<LandingPagePreview> {
+        try {
+            const uem = await LandingPageEditorCommand.loadLandingPage();
+            if (!uem) {
+                return {
+                    error: l10n.t(
+                        'There is no landing page in the static resources yet.'
+                    )
+                };
+            }
+
+            const container = uem.view?.regions?.components?.components?.[0];
+            const cards: PreviewCard[] = [];
+            for (const card of UEMParser.findCards(uem)) {
+                cards.push(
+                    await LandingPagePreviewCommand.getPreviewCard(
+                        card,
+                        useOrgData
+                    )
+                );
+            }
+            return {
+                backgroundColor: container?.properties?.backgroundColor,
+                cards
+            };
+        } catch (err) {
+            return { error: (err as Error).message };
+        }
+    }
+
+    static async getPreviewCard(
+        card: UEMCard,
+        useOrgData: boolean
+    ): Promise<PreviewCard> {
+        const content = card.regions?.components?.components?.[0];
+        const label = card.properties?.label ?? content?.label ?? card.name;
+
+        if (content?.definition === 'mcfp/actionList') {
+            return { type: 'globalActions', label, rows: [] };
+        }
+        if (
+            content?.definition !== 'mcf/list' &&
+            content?.definition !== 'mcf/timedList'
+        ) {
+            return { type: 'unsupported', label, rows: [] };
+        }
+
+        const properties = content.properties;
+        const fieldMap: UEMFieldMap = properties.fieldMap ?? {
+            mainField: Object.keys(properties.fields ?? {})[0] ?? 'Id'
+        };
+        const size =
+            properties.size ?? LandingPagePreviewCommand.DEFAULT_LIST_SIZE;
+        const previewCard: PreviewCard = {
+            type: 'list',
+            label,
+            objectApiName: properties.objectApiName,
+            rows: LandingPagePreviewCommand.getPlaceholderRows(fieldMap, size)
+        };
+
+        if (useOrgData) {
+            try {
+                const records = await OrgUtils.getSampleRecords(
+                    properties.objectApiName,
+                    Object.keys(properties.fields ?? {}),
+                    LandingPagePreviewCommand.getOrderByClause(
+                        properties.orderBy
+                    ),
+                    size
+                );
+                previewCard.rows = records.map((record) =>
+                    LandingPagePreviewCommand.getRecordRow(fieldMap, record)
+                );
+            } catch (err) {
+                previewCard.error = l10n.t(
+                    'Could not load sample records: {0}',
+                    `${err}`
+                );
+            }
+        }
+        return previewCard;
+    }
+
+    static getPlaceholderRows(
+        fieldMap: UEMFieldMap,
+        size: number
+    ): PreviewRow[] {
+        const rows: PreviewRow[] = [];
+        for (let index = 1; index <= size; index++) {
+            const placeholder = (field: string | undefined) =>
+                field === undefined ? undefined : `${field} ${index}`;
+            rows.push({
+                mainField: placeholder(fieldMap.mainField)!,
+                subField1: placeholder(fieldMap.subField1),
+                subField2: placeholder(fieldMap.subField2)
+            });
+        }
+        return rows;
+    }
+
+    static getRecordRow(
+        fieldMap: UEMFieldMap,
+        record: SampleRecord
+    ): PreviewRow {
+        const value = (field: string | undefined) => {
+            if (field === undefined) {
+                return undefined;
+            }
+            // relationship fields, ie: "Owner.Name", are nested in the record
+            let fieldValue: unknown = record;
+            for (const part of field.split('.')) {
+                fieldValue =
+                    fieldValue !== null && typeof fieldValue === 'object'
+                        ? (fieldValue as SampleRecord)[part]
+                        : undefined;
+            }
+            return fieldValue === undefined || fieldValue === null
+                ? ''
+                : `${fieldValue}`;
+        };
+        return {
+            mainField: value(fieldMap.mainField)!,
+            subField1: value(fieldMap.subField1),
+            subField2: value(fieldMap.subField2)
+        };
+    }
+
+    /**
+     * @returns the ORDER BY clause of the list, ie: "Name ASC, CreatedDate DESC".
+     */
+    static getOrderByClause(
+        orderBy: UEMOrderBy | undefined
+    ): string | undefined {
+        const orderings = (orderBy ?? []).flatMap((ordering) =>
+            Object.keys(ordering).map((field) => `${field} ${ordering[field]}`)
+        );
+        return orderings.length > 0 ? orderings.join(', ') : undefined;
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(landingPagePreviewCommand, async () => {
+            await LandingPagePreviewCommand.openPreview(context.extensionUri);
+        })
+    );
+}
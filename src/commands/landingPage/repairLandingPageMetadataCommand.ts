@@ -0,0 +1,115 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { commands, l10n, window, ExtensionContext } from 'vscode';
+import { readdir } from 'fs/promises';
+import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { LandingPageBackups } from '../../utils/landingPageBackups';
+import {
+    StaticResourceMetadata,
+    StaticResourceMetadataRepair
+} from '../../utils/staticResourceMetadata';
+import { TemplateChooserCommand } from '../wizard/templateChooserCommand';
+
+const repairLandingPageMetadataCommand =
+    'salesforcedx-vscode-offline-app.repairLandingPageMetadata';
+
+/**
+ * Generates the missing `.resource-meta.xml` of the landing pages and templates in the static
+ * resources, and fixes the ones that are not of json content, once they are backed up.
+ */
+export class RepairLandingPageMetadataCommand {
+    static async repairMetadata(): Promise<StaticResourceMetadataRepair> {
+        const staticResourcesPath =
+            await WorkspaceUtils.getStaticResourcesDir();
+        const repair = await StaticResourceMetadata.repair(
+            staticResourcesPath,
+            await this.getStaticResourceNames(staticResourcesPath),
+            (landingPageName) =>
+                LandingPageBackups.backup(staticResourcesPath, landingPageName)
+        );
+
+        const messages: string[] = [];
+        if (repair.generated.length > 0) {
+            messages.push(
+                l10n.t(
+                    'Generated the metadata of {0}.',
+                    repair.generated.join(', ')
+                )
+            );
+        }
+        if (repair.fixed.length > 0) {
+            messages.push(
+                l10n.t('Fixed the metadata of {0}.', repair.fixed.join(', '))
+            );
+        }
+        if (repair.orphaned.length > 0) {
+            window.showWarningMessage(
+                l10n.t(
+                    'There is metadata without a landing page for {0}.',
+                    repair.orphaned.join(', ')
+                )
+            );
+        }
+        window.showInformationMessage(
+            messages.length > 0
+                ? messages.join(' ')
+                : l10n.t('The landing page metadata is up to date.')
+        );
+        return repair;
+    }
+
+    /**
+     * @returns the names of the landing pages, templates and landing page metadata in the static
+     * resources.
+     */
+    static async getStaticResourceNames(
+        staticResourcesPath: string
+    ): Promise<string[]> {
+        const names = new Set<string>([
+            ...(await TemplateChooserCommand.getLandingPageNames(
+                staticResourcesPath
+            )),
+            ...TemplateChooserCommand.getTemplateNames()
+        ]);
+        for (const filename of await readdir(staticResourcesPath)) {
+            if (
+                filename.startsWith(
+                    TemplateChooserCommand.LANDING_PAGE_FILENAME_PREFIX
+                ) &&
+                filename.endsWith(
+                    StaticResourceMetadata.METADATA_FILE_EXTENSION
+                )
+            ) {
+                names.add(
+                    filename.slice(
+                        0,
+                        -StaticResourceMetadata.METADATA_FILE_EXTENSION.length
+                    )
+                );
+            }
+        }
+        return [...names].sort();
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(repairLandingPageMetadataCommand, async () => {
+            try {
+                await RepairLandingPageMetadataCommand.repairMetadata();
+            } catch (err) {
+                window.showErrorMessage(
+                    l10n.t(
+                        'Could not repair the landing page metadata: {0}',
+                        (err as Error).message
+                    )
+                );
+            }
+        })
+    );
+}
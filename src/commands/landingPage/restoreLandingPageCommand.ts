@@ -0,0 +1,144 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    ExtensionContext,
+    QuickPickItem,
+    Uri
+} from 'vscode';
+import * as path from 'path';
+import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import {
+    LandingPageBackup,
+    LandingPageBackups
+} from '../../utils/landingPageBackups';
+import { TemplateChooserCommand } from '../wizard/templateChooserCommand';
+
+const restoreLandingPageCommand =
+    'salesforcedx-vscode-offline-app.restoreLandingPage';
+
+type BackupQuickPickItem = QuickPickItem & { backup: LandingPageBackup };
+
+/**
+ * Lists the backups the extension made of the landing pages before overwriting them, to compare
+ * them with the current landing page and restore one.
+ */
+export class RestoreLandingPageCommand {
+    static readonly RESTORE_LABEL = l10n.t('Restore');
+    static readonly COMPARE_LABEL = l10n.t('Compare with Current');
+
+    /**
+     * @returns the restored backup, or undefined if the user restored none.
+     */
+    static async restoreLandingPage(): Promise<LandingPageBackup | undefined> {
+        const staticResourcesPath =
+            await WorkspaceUtils.getStaticResourcesDir();
+        const backups = await LandingPageBackups.getBackups();
+        if (backups.length === 0) {
+            await window.showInformationMessage(
+                l10n.t('There is no landing page backup yet.')
+            );
+            return undefined;
+        }
+
+        const selected = await window.showQuickPick<BackupQuickPickItem>(
+            backups.map((backup) => {
+                return {
+                    label: backup.landingPageName,
+                    description: backup.createdAt.toLocaleString(),
+                    detail: backup.filenames.join(', '),
+                    backup
+                };
+            }),
+            {
+                placeHolder: l10n.t('Select the landing page backup'),
+                matchOnDescription: true,
+                ignoreFocusOut: true
+            }
+        );
+        if (!selected) {
+            return undefined;
+        }
+        const backup = selected.backup;
+
+        let action = await window.showQuickPick(
+            [this.COMPARE_LABEL, this.RESTORE_LABEL],
+            {
+                placeHolder: l10n.t(
+                    "What do you want to do with the backup of '{0}'?",
+                    backup.landingPageName
+                ),
+                ignoreFocusOut: true
+            }
+        );
+        if (action === this.COMPARE_LABEL) {
+            await this.compareWithCurrent(backup, staticResourcesPath);
+            action = await window.showInformationMessage(
+                l10n.t(
+                    "Restore the backup of '{0}' from {1}?",
+                    backup.landingPageName,
+                    backup.createdAt.toLocaleString()
+                ),
+                this.RESTORE_LABEL
+            );
+        }
+        if (action !== this.RESTORE_LABEL) {
+            return undefined;
+        }
+
+        await LandingPageBackups.restore(backup, staticResourcesPath);
+        window.showInformationMessage(
+            l10n.t(
+                "Restored '{0}'. Its previous content was backed up.",
+                backup.landingPageName
+            )
+        );
+        return backup;
+    }
+
+    /**
+     * Opens a diff of the backed up json against the current landing page.
+     */
+    static async compareWithCurrent(
+        backup: LandingPageBackup,
+        staticResourcesPath: string
+    ) {
+        const jsonFilename =
+            backup.landingPageName +
+            TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION;
+        await commands.executeCommand(
+            'vscode.diff',
+            Uri.file(path.join(backup.folderPath, jsonFilename)),
+            Uri.file(path.join(staticResourcesPath, jsonFilename)),
+            l10n.t(
+                "'{0}' ({1}) ↔ Current",
+                jsonFilename,
+                backup.createdAt.toLocaleString()
+            )
+        );
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(restoreLandingPageCommand, async () => {
+            try {
+                await RestoreLandingPageCommand.restoreLandingPage();
+            } catch (err) {
+                window.showErrorMessage(
+                    l10n.t(
+                        'Could not restore the landing page: {0}',
+                        (err as Error).message
+                    )
+                );
+            }
+        })
+    );
+}
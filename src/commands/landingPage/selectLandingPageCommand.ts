@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    ExtensionContext,
+    QuickPickItem
+} from 'vscode';
+import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { TemplateChooserCommand } from '../wizard/templateChooserCommand';
+
+const selectLandingPageCommand =
+    'salesforcedx-vscode-offline-app.selectLandingPage';
+
+/**
+ * Chooses which of the landing pages of the project, ie: landing_page_sales, the editor, preview,
+ * outline and diagnostics work on.
+ */
+export class SelectLandingPageCommand {
+    /**
+     * @returns the selected landing page, or undefined if there is none or the user dismissed the prompt.
+     */
+    static async selectLandingPage(): Promise<string | undefined> {
+        const staticResourcesPath =
+            await WorkspaceUtils.getStaticResourcesDir();
+        const landingPageNames =
+            await TemplateChooserCommand.getLandingPageNames(
+                staticResourcesPath
+            );
+        if (landingPageNames.length === 0) {
+            await window.showInformationMessage(
+                l10n.t('There is no landing page in the static resources yet.')
+            );
+            return undefined;
+        }
+
+        const activeLandingPageName =
+            TemplateChooserCommand.getActiveLandingPageName();
+        const items: QuickPickItem[] = landingPageNames.map((name) => {
+            return {
+                label: name,
+                description:
+                    name === activeLandingPageName
+                        ? l10n.t('active')
+                        : undefined
+            };
+        });
+        const selected = await window.showQuickPick(items, {
+            placeHolder: l10n.t('Select the landing page to work on'),
+            ignoreFocusOut: true
+        });
+        if (!selected) {
+            return undefined;
+        }
+
+        if (selected.label !== activeLandingPageName) {
+            await TemplateChooserCommand.setActiveLandingPageName(
+                selected.label
+            );
+        }
+        return selected.label;
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(selectLandingPageCommand, async () => {
+            try {
+                await SelectLandingPageCommand.selectLandingPage();
+            } catch (err) {
+                window.showErrorMessage((err as Error).message);
+            }
+        })
+    );
+}
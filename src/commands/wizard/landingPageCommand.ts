@@ -5,25 +5,122 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
  */
 
-import { window, QuickPickItem, QuickPickItemKind, l10n } from 'vscode';
+import {
+    commands,
+    window,
+    ExtensionContext,
+    ProgressLocation,
+    QuickPickItem,
+    QuickPickItemKind,
+    l10n
+} from 'vscode';
+import * as path from 'path';
+import { access, readFile, writeFile } from 'fs/promises';
 import { Field, OrgUtils } from '../../utils/orgUtils';
 import { UIUtils } from '../../utils/uiUtils';
-import { UEMBuilder } from '../../utils/uemBuilder';
+import { UEMBuilder, UEMBuilderOptions } from '../../utils/uemBuilder';
+import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { JSON_INDENTATION_SPACES } from '../../utils/constants';
+import { StaticResourceMetadata } from '../../utils/staticResourceMetadata';
+import { TemplateChooserCommand } from './templateChooserCommand';
+import type { UEMDocument } from '../../types';
+
+const buildLandingPageCommand =
+    'salesforcedx-vscode-offline-app.buildLandingPage';
 
 export class LandingPageCommand {
     public static readonly GLOBAL_ACTIONS_CARD_LABEL = l10n.t('Global Actions');
     public static readonly TIMED_LIST_CARD_LABEL = l10n.t('Timed List');
     public static readonly RECORD_LIST_CARD_LABEL = l10n.t('Record list');
     public static readonly FINISHED_LABEL = l10n.t('-- Finished --');
+    public static readonly ASCENDING_LABEL = l10n.t('Ascending');
+    public static readonly DESCENDING_LABEL = l10n.t('Descending');
+    public static readonly ADD_TO_EXISTING_LABEL = l10n.t(
+        'Add cards to the existing landing page'
+    );
+    public static readonly START_OVER_LABEL = l10n.t(
+        'Start a new landing page'
+    );
+    public static readonly MIN_ITEMS = 3;
+    public static readonly MAX_ITEMS = 8;
+    public static readonly LANDING_PAGE_METADATA_XML =
+        StaticResourceMetadata.generate();
+
+    /**
+     * Builds a landing page interactively, then saves it as landing_page.json (and its metadata) in the
+     * static resources of the project.
+     * @returns true if the landing page was saved.
+     */
+    public static async buildAndSaveLandingPage(): Promise<boolean> {
+        let builder = new UEMBuilder();
+        let addToExisting = false;
+        let existingLandingPage: UEMDocument | undefined;
+        const existingLandingPageName =
+            TemplateChooserCommand.getActiveLandingPageName();
+        try {
+            existingLandingPage = await LandingPageCommand.loadLandingPage(
+                existingLandingPageName
+            );
+        } catch (err) {
+            // no static resources yet, or an unreadable landing page that will be overwritten
+            console.info('Could not load the existing landing page.', err);
+        }
+        if (existingLandingPage) {
+            const choice = await window.showQuickPick(
+                [
+                    LandingPageCommand.ADD_TO_EXISTING_LABEL,
+                    LandingPageCommand.START_OVER_LABEL
+                ],
+                {
+                    placeHolder: l10n.t(
+                        'A landing page already exists. Add cards to it, or start a new one?'
+                    ),
+                    ignoreFocusOut: true
+                }
+            );
+            if (!choice) {
+                return Promise.resolve(false);
+            }
+            if (choice === LandingPageCommand.ADD_TO_EXISTING_LABEL) {
+                try {
+                    builder = UEMBuilder.fromJson(existingLandingPage);
+                    addToExisting = true;
+                } catch (err) {
+                    await window.showErrorMessage((err as Error).message);
+                    return Promise.resolve(false);
+                }
+            }
+        }
+
+        if (!addToExisting) {
+            const options = await LandingPageCommand.selectLandingPageOptions();
+            if (!options) {
+                return Promise.resolve(false);
+            }
+            builder = new UEMBuilder(options);
+        }
+
+        const uem = await LandingPageCommand.buildLandingPage(builder);
+        if (!uem) {
+            return Promise.resolve(false);
+        }
+        // the cards added to the existing landing page are saved back to it
+        return LandingPageCommand.saveLandingPage(
+            uem,
+            addToExisting ? existingLandingPageName : undefined
+        );
+    }
 
     /**
      * Prompts user, in a loop, for cards to include on the landing page. Each card has different parameters
-     * which we will need to collect as well.
+     * which we will need to collect as well. Dismissing a prompt of a card leaves that card out only.
+     * @returns the landing page, or undefined if the user dismissed it without keeping the cards added.
      */
-    public static async buildLandingPage() {
+    public static async buildLandingPage(
+        uem: UEMBuilder = new UEMBuilder()
+    ): Promise<UEMDocument | undefined> {
         let selectedCardType: QuickPickItem | undefined;
-
-        let uem = new UEMBuilder();
+        const initialCardCount = uem.getCards().length;
 
         while (selectedCardType?.label !== LandingPageCommand.FINISHED_LABEL) {
             selectedCardType = await window.showQuickPick(cardTypes, {
@@ -35,25 +132,37 @@ export class LandingPageCommand {
             });
 
             if (!selectedCardType) {
-                return;
+                const addedCardCount = uem.getCards().length - initialCardCount;
+                if (
+                    addedCardCount > 0 &&
+                    (await LandingPageCommand.confirmKeepCards(addedCardCount))
+                ) {
+                    return uem.build();
+                }
+                return undefined;
             }
 
             // add the card to UEM
-            if (
-                selectedCardType.label ===
-                LandingPageCommand.GLOBAL_ACTIONS_CARD_LABEL
-            ) {
-                uem = LandingPageCommand.configureGlobalActionsCard(uem);
-            } else if (
-                selectedCardType.label ===
-                LandingPageCommand.RECORD_LIST_CARD_LABEL
-            ) {
-                uem = await LandingPageCommand.configureRecordListCard(uem);
-            } else if (
-                selectedCardType.label ===
-                LandingPageCommand.TIMED_LIST_CARD_LABEL
-            ) {
-                uem = await LandingPageCommand.configureTimedListCard(uem);
+            try {
+                if (
+                    selectedCardType.label ===
+                    LandingPageCommand.GLOBAL_ACTIONS_CARD_LABEL
+                ) {
+                    uem = LandingPageCommand.configureGlobalActionsCard(uem);
+                } else if (
+                    selectedCardType.label ===
+                    LandingPageCommand.RECORD_LIST_CARD_LABEL
+                ) {
+                    uem = await LandingPageCommand.configureRecordListCard(uem);
+                } else if (
+                    selectedCardType.label ===
+                    LandingPageCommand.TIMED_LIST_CARD_LABEL
+                ) {
+                    uem = await LandingPageCommand.configureTimedListCard(uem);
+                }
+            } catch (err) {
+                // UIUtils.showQuickPick rejects when dismissed, the cards already added are kept
+                console.info('User dismissed the card being configured.', err);
             }
 
             // TODO: Show progress somehow
@@ -62,6 +171,190 @@ export class LandingPageCommand {
         return uem.build();
     }
 
+    /**
+     * Asks the user whether to keep the cards added before the landing page was dismissed.
+     * @returns true if the cards are to be saved.
+     */
+    static async confirmKeepCards(addedCardCount: number): Promise<boolean> {
+        const save = l10n.t('Save');
+        const answer = await window.showWarningMessage(
+            l10n.t(
+                'Save the {0} card(s) added to the landing page?',
+                addedCardCount
+            ),
+            { modal: true },
+            save
+        );
+        return answer === save;
+    }
+
+    /**
+     * Prompts for the persona the landing page is for, which names its static resource, for the target
+     * it is rendered on and for its background color.
+     * @returns the options of the new landing page, or undefined if the user dismissed a prompt.
+     */
+    static async selectLandingPageOptions(): Promise<
+        UEMBuilderOptions | undefined
+    > {
+        const templateNames = TemplateChooserCommand.getTemplateNames();
+        const persona = await window.showInputBox({
+            prompt: l10n.t(
+                'Enter the persona this landing page is for, ie: Field Sales. Leave empty for the default landing page.'
+            ),
+            ignoreFocusOut: true,
+            validateInput: (value) => {
+                const apiName = UEMBuilder.toApiName(value);
+                if (templateNames.includes(apiName)) {
+                    return l10n.t(
+                        "'{0}' is the name of a landing page template.",
+                        apiName
+                    );
+                }
+                return UEMBuilder.isValidApiName(apiName)
+                    ? undefined
+                    : l10n.t(
+                          "'{0}' is not a valid static resource name.",
+                          apiName
+                      );
+            }
+        });
+        if (persona === undefined) {
+            return undefined;
+        }
+
+        const target = await window.showInputBox({
+            prompt: l10n.t('Enter the target the landing page is rendered on.'),
+            value: UEMBuilder.DEFAULT_TARGET,
+            ignoreFocusOut: true,
+            validateInput: (value) =>
+                /^\w+$/.test(value)
+                    ? undefined
+                    : l10n.t(
+                          'Enter a target such as {0}.',
+                          UEMBuilder.DEFAULT_TARGET
+                      )
+        });
+        if (target === undefined) {
+            return undefined;
+        }
+
+        const backgroundColor = await window.showInputBox({
+            prompt: l10n.t('Enter the background color of the landing page.'),
+            value: UEMBuilder.DEFAULT_BACKGROUND_COLOR,
+            ignoreFocusOut: true,
+            validateInput: (value) =>
+                /^#[0-9A-Fa-f]{6}$/.test(value)
+                    ? undefined
+                    : l10n.t('Enter a color such as #F3F2F2.')
+        });
+        if (backgroundColor === undefined) {
+            return undefined;
+        }
+
+        return {
+            apiName: UEMBuilder.toApiName(persona),
+            target,
+            backgroundColor
+        };
+    }
+
+    /**
+     * Writes the landing page json, along with its static resource metadata, to the static resources
+     * directory. A new landing page is named after its apiName. The user is asked for confirmation
+     * before any landing page but the loaded one is overwritten.
+     * @param loadedLandingPageName The landing page the cards were added to, which is saved back to.
+     * @returns true if the files were written.
+     */
+    static async saveLandingPage(
+        uem: UEMDocument,
+        loadedLandingPageName?: string
+    ): Promise<boolean> {
+        let staticResourcesPath: string;
+        try {
+            staticResourcesPath = await WorkspaceUtils.getStaticResourcesDir();
+        } catch (err) {
+            await window.showErrorMessage((err as Error).message);
+            return Promise.resolve(false);
+        }
+
+        const filenamePrefix =
+            loadedLandingPageName ??
+            (UEMBuilder.isValidApiName(uem.apiName)
+                ? uem.apiName
+                : TemplateChooserCommand.getActiveLandingPageName());
+        const existingLandingPageFiles =
+            await TemplateChooserCommand.landingPageFilesExistForPrefix(
+                staticResourcesPath,
+                filenamePrefix
+            );
+        if (
+            filenamePrefix !== loadedLandingPageName &&
+            (existingLandingPageFiles.jsonFileExists ||
+                existingLandingPageFiles.metaFileExists)
+        ) {
+            const answer =
+                await TemplateChooserCommand.askUserToOverwriteLandingPage();
+            if (answer === l10n.t('No') || answer === undefined) {
+                console.info(
+                    'User chose not to overwrite their existing landing page.'
+                );
+                return Promise.resolve(false);
+            }
+        }
+        if (
+            !(await TemplateChooserCommand.backupLandingPage(
+                staticResourcesPath,
+                filenamePrefix
+            ))
+        ) {
+            return Promise.resolve(false);
+        }
+
+        await writeFile(
+            path.join(
+                staticResourcesPath,
+                filenamePrefix +
+                    TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+            ),
+            JSON.stringify(uem, null, JSON_INDENTATION_SPACES)
+        );
+        await StaticResourceMetadata.write(staticResourcesPath, filenamePrefix);
+
+        window.showInformationMessage(
+            l10n.t(
+                "Saved the landing page to '{0}'.",
+                path.join(
+                    WorkspaceUtils.STATIC_RESOURCES_PATH,
+                    filenamePrefix +
+                        TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+                )
+            )
+        );
+        return Promise.resolve(true);
+    }
+
+    /**
+     * @param landingPageName The landing page to load, the active one by default.
+     * @returns the contents of the landing page, or undefined if it does not exist.
+     */
+    static async loadLandingPage(
+        landingPageName = TemplateChooserCommand.getActiveLandingPageName()
+    ): Promise<UEMDocument | undefined> {
+        const staticResourcesPath =
+            await WorkspaceUtils.getStaticResourcesDir();
+        const landingPagePath = path.join(
+            staticResourcesPath,
+            landingPageName +
+                TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+        );
+        try {
+            await access(landingPagePath);
+        } catch {
+            return undefined;
+        }
+        return JSON.parse(await readFile(landingPagePath, 'utf8'));
+    }
+
     /**
      *
      * @returns json representation of a global actions card.
@@ -76,13 +369,163 @@ export class LandingPageCommand {
      * - OrderBy field
      * - OrderBy direction (Ascending or Descending)
      * - MaxItems (number from 3-8)
+     * - Swipe Actions, out of the sObject's quick actions defined in the project
      * @returns json representation of a record list card.
      */
     static async configureRecordListCard(uem: UEMBuilder): Promise<UEMBuilder> {
-        const selectedItem = await UIUtils.showQuickPick(
+        const selectedItem = await LandingPageCommand.selectSObject(
             l10n.t(
                 'Select which sObject you want to display on the Record List.'
+            )
+        );
+
+        if (!selectedItem) {
+            return Promise.resolve(uem);
+        }
+
+        const apiName = selectedItem.detail!;
+        const labelPlural = selectedItem.label;
+
+        // The first request we will retrieve the fields and show a progress message
+        const { fields, selectedFields } =
+            await LandingPageCommand.selectDisplayFields(
+                () => OrgUtils.getFieldsForSObject(apiName),
+                l10n.t('Retrieving list of fields for sObject.')
+            );
+
+        const orderByField = await LandingPageCommand.selectField(
+            l10n.t('Select which field the records should be ordered by.'),
+            LandingPageCommand.getSortableFields(fields)
+        );
+        if (!orderByField) {
+            return Promise.resolve(uem);
+        }
+        const isAscending = await LandingPageCommand.selectOrderByDirection();
+        const size = await LandingPageCommand.selectMaxItems();
+        const swipeActions =
+            await LandingPageCommand.selectSwipeActions(apiName);
+
+        return Promise.resolve(
+            uem.addRecordListCard(
+                apiName,
+                labelPlural,
+                selectedFields,
+                orderByField.apiName,
+                isAscending,
+                size,
+                swipeActions
+            )
+        );
+    }
+
+    /**
+     * Gather input from user on building a Timed List card. This will require obtaining the following params:
+     * - Object Type
+     * - startDate - the user picks one of the sObject's 'date' or 'datetime' fields as the start field
+     * - endDate - same as startDate for the end field to use
+     * - Primary, and optionally Secondary and Tertiary fields
+     * - OrderBy field
+     * - OrderBy direction (Ascending or Descending)
+     * - MaxItems (number from 3-8)
+     * @returns json representation of a timed and sorted list card.
+     */
+    static async configureTimedListCard(uem: UEMBuilder): Promise<UEMBuilder> {
+        const selectedItem = await LandingPageCommand.selectSObject(
+            l10n.t(
+                'Select which sObject you want to display on the Timed List.'
+            )
+        );
+
+        if (!selectedItem) {
+            return Promise.resolve(uem);
+        }
+
+        const apiName = selectedItem.detail!;
+        const labelPlural = selectedItem.label;
+
+        const fields = await window.withProgress(
+            {
+                location: ProgressLocation.Notification,
+                title: l10n.t('Retrieving list of fields for sObject.')
+            },
+            async (_progress, _token) => {
+                return OrgUtils.getFieldsForSObject(apiName);
+            }
+        );
+
+        const dateFields = fields.filter((field) =>
+            LandingPageCommand.isDateField(field)
+        );
+        if (dateFields.length === 0) {
+            await window.showWarningMessage(
+                l10n.t(
+                    "The sObject '{0}' has no date or date/time fields, so it cannot be displayed on a Timed List.",
+                    apiName
+                )
+            );
+            return Promise.resolve(uem);
+        }
+
+        const startTimeField = await LandingPageCommand.selectField(
+            l10n.t(
+                'Select which field holds the start date/time of each record.'
+            ),
+            dateFields
+        );
+        if (!startTimeField) {
+            return Promise.resolve(uem);
+        }
+
+        const endTimeField = await LandingPageCommand.selectField(
+            l10n.t(
+                'Select which field holds the end date/time of each record.'
             ),
+            dateFields
+        );
+        if (!endTimeField) {
+            return Promise.resolve(uem);
+        }
+
+        const { selectedFields } = await LandingPageCommand.selectDisplayFields(
+            () => Promise.resolve(fields)
+        );
+
+        const orderByField = await LandingPageCommand.selectField(
+            l10n.t('Select which field the records should be ordered by.'),
+            LandingPageCommand.getSortableFields(fields)
+        );
+        if (!orderByField) {
+            return Promise.resolve(uem);
+        }
+        const isAscending = await LandingPageCommand.selectOrderByDirection();
+        const size = await LandingPageCommand.selectMaxItems();
+
+        return Promise.resolve(
+            uem.addTimedListCard(
+                apiName,
+                labelPlural,
+                startTimeField,
+                endTimeField,
+                selectedFields,
+                orderByField.apiName,
+                isAscending,
+                size
+            )
+        );
+    }
+
+    /**
+     * Prompts the user to pick one of the sObjects of the org.
+     * @param placeholderMessage Message shown in the quick pick once the sObjects are retrieved.
+     * @returns the selected item, with the sObject api name as `detail` and its plural label as `label`,
+     * or undefined if the user dismissed the prompt.
+     */
+    static async selectSObject(
+        placeholderMessage: string
+    ): Promise<QuickPickItem | undefined> {
+        // UIUtils.showQuickPick rejects when dismissed
+        return UIUtils.showQuickPick(
+            placeholderMessage,
             l10n.t('Retrieving sObjects from your org, please wait...'),
             () => {
                 return new Promise<QuickPickItem[]>(async (resolve, reject) => {
@@ -97,15 +540,23 @@ export class LandingPageCommand {
                     resolve(items);
                 });
             }
-        );
-
-        if (!selectedItem) {
-            return Promise.resolve(uem);
-        }
-
-        const apiName = selectedItem.detail!;
-        const labelPlural = selectedItem.label;
+        ).catch((err) => {
+            console.info('User dismissed the sObject selection.', err);
+            return undefined;
+        });
+    }
 
+    /**
+     * Prompts the user for up to 3 fields to display: a required primary field, then optional secondary and
+     * tertiary fields.
+     * @param loadFields Callback providing all the fields of the sObject.
+     * @param progressMessage Message shown while the fields are being loaded, if any.
+     * @returns all the fields of the sObject, and the fields that were selected in display order.
+     */
+    static async selectDisplayFields(
+        loadFields: () => Promise<Field[]>,
+        progressMessage?: string
+    ): Promise<{ fields: Field[]; selectedFields: Field[] }> {
         let selectedFields: Field[] = [];
         let fields: Field[] = [];
         let fieldsPickList: QuickPickItem[] = [];
@@ -115,23 +566,15 @@ export class LandingPageCommand {
             detail: l10n.t("I don't want any more fields to be displayed.")
         };
 
-        // Prompt user for up to 3 fields. The first request we will retrieve the fields and show a progress
-        // message
         const selectedFieldPickItem1 = await UIUtils.showQuickPick(
             l10n.t(
                 'Select which field you want to display as the primary field.'
             ),
-            l10n.t('Retrieving list of fields for sObject.'),
+            progressMessage,
             () => {
                 return new Promise<QuickPickItem[]>(async (resolve, reject) => {
-                    fields = await OrgUtils.getFieldsForSObject(apiName);
-                    fieldsPickList = fields.map((field) => {
-                        return {
-                            label: field.label,
-                            describe: field.type,
-                            detail: field.apiName
-                        };
-                    });
+                    fields = await loadFields();
+                    fieldsPickList = LandingPageCommand.toFieldPickList(fields);
                     resolve(fieldsPickList);
                 });
             }
@@ -197,29 +640,120 @@ export class LandingPageCommand {
             }
         }
 
-        // TODO: Get OrderBy field
-        // TODO: Get OrderBy direction
-        // TODO: Get MaxItems
-        // TODO: Swipe Actions
+        return Promise.resolve({ fields, selectedFields });
+    }
 
-        return Promise.resolve(
-            uem.addRecordListCard(apiName, labelPlural, selectedFields)
+    /**
+     * Prompts the user to pick a single field out of the given fields.
+     * @returns the selected field, or undefined if the user dismissed the prompt.
+     */
+    static async selectField(
+        placeholderMessage: string,
+        fields: Field[]
+    ): Promise<Field | undefined> {
+        // UIUtils.showQuickPick rejects when dismissed
+        const selectedItem = await UIUtils.showQuickPick(
+            placeholderMessage,
+            undefined,
+            () => {
+                return Promise.resolve(
+                    LandingPageCommand.toFieldPickList(fields)
+                );
+            }
+        ).catch((err) => {
+            console.info('User dismissed the field selection.', err);
+            return undefined;
+        });
+        return fields.find((field) => field.apiName === selectedItem?.detail);
+    }
+
+    /**
+     * @returns true if the user wants the records in ascending order.
+     */
+    static async selectOrderByDirection(): Promise<boolean> {
+        const selectedItem = await UIUtils.showQuickPick(
+            l10n.t('Select the order of the records.'),
+            undefined,
+            () => {
+                return Promise.resolve([
+                    { label: LandingPageCommand.ASCENDING_LABEL },
+                    { label: LandingPageCommand.DESCENDING_LABEL }
+                ]);
+            }
         );
+        return selectedItem?.label !== LandingPageCommand.DESCENDING_LABEL;
     }
 
     /**
-     * Gather input from user on building a Timed List card. This will require obtaining the following params:
-     * - Object Type (it appears some are filtered out?)
-     * - startDate - will need to look for fields of 'datetime' and ask the user if this field is the start field to use
-     * - endDate - same as startDate for the end field to use
-     * - Primary, and optionally Secondary and Tertiary fields
-     * - OrderBy field
-     * - OrderBy direction (Ascending or Descending)
-     * - MaxItems (number from 3-8)
-     * @returns json representation of a timed and sorted list card.
+     * @returns the maximum number of records to display on the card.
      */
-    static async configureTimedListCard(uem: UEMBuilder): Promise<UEMBuilder> {
-        return Promise.resolve(uem.addTimedListCard());
+    static async selectMaxItems(): Promise<number> {
+        const selectedItem = await UIUtils.showQuickPick(
+            l10n.t('Select the maximum number of records to display.'),
+            undefined,
+            () => {
+                const items: QuickPickItem[] = [];
+                for (
+                    let size = LandingPageCommand.MIN_ITEMS;
+                    size <= LandingPageCommand.MAX_ITEMS;
+                    size++
+                ) {
+                    items.push({ label: `${size}` });
+                }
+                return Promise.resolve(items);
+            }
+        );
+        return Number(selectedItem.label);
+    }
+
+    /**
+     * Prompts the user for the quick actions to offer when swiping a record of the list. Only the quick
+     * actions of the sObject that exist in the project are offered; the user is not prompted if there are none.
+     * @returns the api names of the selected quick actions, ie: `Account.edit`.
+     */
+    static async selectSwipeActions(objectApiName: string): Promise<string[]> {
+        const quickActionNames = WorkspaceUtils.getQuickActionNames().filter(
+            (name) => name.startsWith(`${objectApiName}.`)
+        );
+        if (quickActionNames.length === 0) {
+            return Promise.resolve([]);
+        }
+
+        const selectedItems = await window.showQuickPick(
+            quickActionNames.map((name) => {
+                return { label: name };
+            }),
+            {
+                placeHolder: l10n.t(
+                    'Select the quick actions available when swiping a record (or none to skip).'
+                ),
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        return Promise.resolve((selectedItems ?? []).map((item) => item.label));
+    }
+
+    /**
+     * Fields without sortable metadata are assumed to be sortable.
+     */
+    static getSortableFields(fields: Field[]): Field[] {
+        return fields.filter((field) => field.sortable !== false);
+    }
+
+    static isDateField(field: Field): boolean {
+        const type = field.type.toLowerCase();
+        return type === 'date' || type === 'datetime';
+    }
+
+    private static toFieldPickList(fields: Field[]): QuickPickItem[] {
+        return fields.map((field) => {
+            return {
+                label: field.label,
+                description: field.type,
+                detail: field.apiName
+            };
+        });
     }
 }
 
@@ -249,3 +783,11 @@ const cardTypes: QuickPickItem[] = [
         description: l10n.t('Finish and generate the landing page.')
     }
 ];
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(buildLandingPageCommand, async () => {
+            await LandingPageCommand.buildAndSaveLandingPage();
+        })
+    );
+}
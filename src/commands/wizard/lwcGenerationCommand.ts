@@ -5,16 +5,22 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
  */
 
-import { Uri, l10n } from 'vscode';
+import { Uri, l10n, window } from 'vscode';
 import { access } from 'fs/promises';
 import { InstructionsWebviewProvider } from '../../webviews/instructions';
 import { UEMParser } from '../../utils/uemParser';
 import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { TemplateChooserCommand } from './templateChooserCommand';
 import { CommonUtils } from '@salesforce/lwc-dev-mobile-core';
 import { OrgUtils } from '../../utils/orgUtils';
 import * as fs from 'fs';
 import { CodeBuilder } from '../../utils/codeBuilder';
 import * as path from 'path';
+import type { UEMDocument } from '../../types';
+import {
+    LwcGenerationPreview,
+    SObjectGeneratedFiles
+} from './lwcGenerationPreview';
 
 export type QuickActionStatus = {
     view: boolean;
@@ -61,16 +67,22 @@ export class LwcGenerationCommand {
                                     }
                                 );
 
-                            const newLwcQuickActionStatus =
-                                await LwcGenerationCommand.generateMissingLwcsAndQuickActions(
-                                    extensionUri,
-                                    quickActionStatus!
-                                ).catch((error) => {
-                                    if (callback) {
-                                        callback({ error: error });
-                                    }
-                                    return;
-                                });
+                            const newLwcQuickActionStatus = await (
+                                LwcGenerationPreview.isEnabled()
+                                    ? LwcGenerationCommand.previewAndGenerateMissingLwcsAndQuickActions(
+                                          extensionUri,
+                                          quickActionStatus!
+                                      )
+                                    : LwcGenerationCommand.generateMissingLwcsAndQuickActions(
+                                          extensionUri,
+                                          quickActionStatus!
+                                      )
+                            ).catch((error) => {
+                                if (callback) {
+                                    callback({ error: error });
+                                }
+                                return;
+                            });
 
                             // send back updates so UI can be refreshed
                             if (callback) {
@@ -98,28 +110,53 @@ export class LwcGenerationCommand {
         });
     }
 
+    /**
+     * @returns the sObjects of all the landing pages of the project, each one once.
+     */
     static async getSObjectsFromLandingPage(): Promise<GetSObjectsStatus> {
         return new Promise<GetSObjectsStatus>(async (resolve, reject) => {
             const staticResourcesPath =
                 await WorkspaceUtils.getStaticResourcesDir();
-            const landingPageJson = 'landing_page.json';
-            const landingPagePath = path.join(
-                staticResourcesPath,
-                landingPageJson
-            );
 
             const getSObjectsStatus: GetSObjectsStatus = {
                 sobjects: []
             };
 
+            let landingPageJson = 'landing_page.json';
             try {
-                await access(landingPagePath);
-                const uem = CommonUtils.loadJsonFromFile(landingPagePath);
-                getSObjectsStatus.sobjects = UEMParser.findSObjects(uem);
+                const landingPageNames =
+                    await TemplateChooserCommand.getLandingPageNames(
+                        staticResourcesPath
+                    );
+                if (landingPageNames.length === 0) {
+                    throw new Error(
+                        l10n.t(
+                            "There is no landing page at '{0}'.",
+                            staticResourcesPath
+                        )
+                    );
+                }
+                for (const landingPageName of landingPageNames) {
+                    landingPageJson =
+                        landingPageName +
+                        TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION;
+                    const landingPagePath = path.join(
+                        staticResourcesPath,
+                        landingPageJson
+                    );
+                    await access(landingPagePath);
+                    const uem: UEMDocument =
+                        CommonUtils.loadJsonFromFile(landingPagePath);
+                    for (const sobject of UEMParser.findSObjects(uem)) {
+                        if (!getSObjectsStatus.sobjects.includes(sobject)) {
+                            getSObjectsStatus.sobjects.push(sobject);
+                        }
+                    }
+                }
                 resolve(getSObjectsStatus);
             } catch (err) {
                 console.warn(
-                    `File '${landingPageJson}' does not exist at '${staticResourcesPath}'.`
+                    `Could not read '${landingPageJson}' at '${staticResourcesPath}'.`
                 );
                 reject((err as Error).message);
             }
@@ -129,43 +166,48 @@ export class LwcGenerationCommand {
     static async checkForExistingQuickActions(): Promise<SObjectQuickActionStatus> {
         return new Promise<SObjectQuickActionStatus>(
             async (resolve, reject) => {
-                const results: SObjectQuickActionStatus = { sobjects: {} };
-
                 const sObjectsStatus =
                     await this.getSObjectsFromLandingPage().catch((error) => {
                         return reject(error);
                     });
+                if (!sObjectsStatus) {
+                    return;
+                }
 
-                sObjectsStatus!.sobjects.forEach((sobject) => {
-                    const quickActionStatus: QuickActionStatus = {
-                        view: false,
-                        edit: false,
-                        create: false
-                    };
-                    quickActionStatus.view =
-                        LwcGenerationCommand.checkForExistingQuickAction(
-                            sobject,
-                            'view'
-                        );
-                    quickActionStatus.edit =
-                        LwcGenerationCommand.checkForExistingQuickAction(
-                            sobject,
-                            'edit'
-                        );
-                    quickActionStatus.create =
-                        LwcGenerationCommand.checkForExistingQuickAction(
-                            sobject,
-                            'create'
-                        );
-
-                    results.sobjects[sobject] = quickActionStatus;
-                });
-
-                return resolve(results);
+                return resolve(
+                    LwcGenerationCommand.getQuickActionStatus(
+                        sObjectsStatus.sobjects
+                    )
+                );
             }
         );
     }
 
+    /**
+     * @returns which of the view, edit and create quick actions of the given sObjects exist, whether
+     * they are on a landing page or not.
+     */
+    static getQuickActionStatus(sobjects: string[]): SObjectQuickActionStatus {
+        const results: SObjectQuickActionStatus = { sobjects: {} };
+        sobjects.forEach((sobject) => {
+            results.sobjects[sobject] = {
+                view: LwcGenerationCommand.checkForExistingQuickAction(
+                    sobject,
+                    'view'
+                ),
+                edit: LwcGenerationCommand.checkForExistingQuickAction(
+                    sobject,
+                    'edit'
+                ),
+                create: LwcGenerationCommand.checkForExistingQuickAction(
+                    sobject,
+                    'create'
+                )
+            };
+        });
+        return results;
+    }
+
     static async generateMissingLwcsAndQuickActions(
         extensionUri: Uri,
         quickActionStatus: SObjectQuickActionStatus
@@ -183,35 +225,19 @@ export class LwcGenerationCommand {
                             !quickActions.view
                         ) {
                             // at least 1 needs to be created
-                            const compactLayoutFields =
-                                await OrgUtils.getCompactLayoutFieldsForSObject(
+                            const codeBuilder =
+                                await LwcGenerationCommand.createCodeBuilder(
+                                    extensionUri,
                                     sobject
                                 ).catch((err) => {
-                                    reject(
-                                        `An error occurred while obtaining layout for ${sobject} : ${
-                                            (err as Error).message
-                                        }`
-                                    );
+                                    reject(err);
                                     return;
                                 });
 
-                            const codeBuilder = new CodeBuilder(
-                                extensionUri,
-                                sobject,
-                                compactLayoutFields!
+                            await LwcGenerationCommand.generateMissingQuickActions(
+                                codeBuilder!,
+                                quickActions
                             );
-
-                            if (!quickActions.view) {
-                                await codeBuilder.generateView();
-                            }
-
-                            if (!quickActions.edit) {
-                                await codeBuilder.generateEdit();
-                            }
-
-                            if (!quickActions.create) {
-                                await codeBuilder.generateCreate();
-                            }
                         }
                     } catch (err) {
                         console.error(
@@ -222,13 +248,173 @@ export class LwcGenerationCommand {
                 }
 
                 // Just double check now that things have been created.
-                const newStatus =
-                    await LwcGenerationCommand.checkForExistingQuickActions();
-                resolve(newStatus);
+                resolve(
+                    LwcGenerationCommand.getQuickActionStatus(
+                        Object.keys(quickActionStatus.sobjects)
+                    )
+                );
+            }
+        );
+    }
+
+    /**
+     * Computes the files generateMissingLwcsAndQuickActions() would write, without writing them.
+     * @returns the generated files, by sObject. sObjects with all their quick actions are left out,
+     * and so are the ones whose layout or fields cannot be obtained, which are reported.
+     */
+    static async previewMissingLwcsAndQuickActions(
+        extensionUri: Uri,
+        quickActionStatus: SObjectQuickActionStatus
+    ): Promise<SObjectGeneratedFiles> {
+        return new Promise<SObjectGeneratedFiles>(async (resolve) => {
+            const generatedFiles: SObjectGeneratedFiles = {};
+            const skippedSObjects: string[] = [];
+            for (const sobject in quickActionStatus.sobjects) {
+                const quickActions = quickActionStatus.sobjects[sobject];
+                if (
+                    quickActions.create &&
+                    quickActions.edit &&
+                    quickActions.view
+                ) {
+                    continue;
+                }
+                try {
+                    const codeBuilder =
+                        await LwcGenerationCommand.createCodeBuilder(
+                            extensionUri,
+                            sobject
+                        );
+                    codeBuilder.dryRun = true;
+                    await LwcGenerationCommand.generateMissingQuickActions(
+                        codeBuilder,
+                        quickActions
+                    );
+                    generatedFiles[sobject] = codeBuilder.generatedFiles;
+                } catch (err) {
+                    console.error(
+                        `Could not preview quick actions for sobject ${sobject}, so skipping`,
+                        err
+                    );
+                    skippedSObjects.push(sobject);
+                }
+            }
+            if (skippedSObjects.length > 0) {
+                window.showWarningMessage(
+                    l10n.t(
+                        'Could not generate the LWC quick actions of {0}, so they were skipped.',
+                        skippedSObjects.join(', ')
+                    )
+                );
+            }
+            resolve(generatedFiles);
+        });
+    }
+
+    /**
+     * Previews the files generateMissingLwcsAndQuickActions() would write, and writes the ones the
+     * user accepts.
+     */
+    static async previewAndGenerateMissingLwcsAndQuickActions(
+        extensionUri: Uri,
+        quickActionStatus: SObjectQuickActionStatus
+    ): Promise<SObjectQuickActionStatus> {
+        const generatedFiles =
+            await LwcGenerationCommand.previewMissingLwcsAndQuickActions(
+                extensionUri,
+                quickActionStatus
+            );
+        if (Object.keys(generatedFiles).length > 0) {
+            const previewUris =
+                await LwcGenerationPreview.showFiles(generatedFiles);
+            const sobjects =
+                await LwcGenerationPreview.selectAcceptedSObjects(
+                    generatedFiles
+                );
+            LwcGenerationPreview.releaseContents(previewUris);
+            if (sobjects === undefined) {
+                console.info('User cancelled the LWC quick action generation.');
+            } else {
+                LwcGenerationPreview.writeFiles(generatedFiles, sobjects);
             }
+        }
+        return LwcGenerationCommand.getQuickActionStatus(
+            Object.keys(quickActionStatus.sobjects)
         );
     }
 
+    /**
+     * Generates the view, edit and create LWC quick actions of a single sObject, if they are missing.
+     */
+    static async generateQuickActionsForSObject(
+        extensionUri: Uri,
+        sobject: string
+    ): Promise<QuickActionStatus> {
+        const quickActionStatus = LwcGenerationCommand.getQuickActionStatus([
+            sobject
+        ]);
+        const newStatus = LwcGenerationPreview.isEnabled()
+            ? await LwcGenerationCommand.previewAndGenerateMissingLwcsAndQuickActions(
+                  extensionUri,
+                  quickActionStatus
+              )
+            : await LwcGenerationCommand.generateMissingLwcsAndQuickActions(
+                  extensionUri,
+                  quickActionStatus
+              );
+        return newStatus.sobjects[sobject];
+    }
+
+    /**
+     * @returns the CodeBuilder of an sObject, from its compact layout and the describe of its fields.
+     */
+    static async createCodeBuilder(
+        extensionUri: Uri,
+        sobject: string
+    ): Promise<CodeBuilder> {
+        const compactLayoutFields =
+            await OrgUtils.getCompactLayoutFieldsForSObject(sobject).catch(
+                (err) => {
+                    return Promise.reject(
+                        `An error occurred while obtaining layout for ${sobject} : ${
+                            (err as Error).message
+                        }`
+                    );
+                }
+            );
+        const fields = await OrgUtils.getFieldsForSObject(sobject).catch(
+            (err) => {
+                return Promise.reject(
+                    `An error occurred while describing ${sobject} : ${
+                        (err as Error).message
+                    }`
+                );
+            }
+        );
+        return new CodeBuilder(
+            extensionUri,
+            sobject,
+            compactLayoutFields,
+            fields
+        );
+    }
+
+    private static async generateMissingQuickActions(
+        codeBuilder: CodeBuilder,
+        quickActions: QuickActionStatus
+    ) {
+        if (!quickActions.view) {
+            await codeBuilder.generateView();
+        }
+
+        if (!quickActions.edit) {
+            await codeBuilder.generateEdit();
+        }
+
+        if (!quickActions.create) {
+            await codeBuilder.generateCreate();
+        }
+    }
+
     private static checkForExistingQuickAction(
         sobject: string,
         qaName: string
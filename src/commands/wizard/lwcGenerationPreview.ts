@@ -0,0 +1,228 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    workspace,
+    EventEmitter,
+    ExtensionContext,
+    QuickPickItem,
+    TextDocumentContentProvider,
+    Uri
+} from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeBuilder, GeneratedFile } from '../../utils/codeBuilder';
+
+/**
+ * The files a dry run of the LWC quick action generation would write, by sObject.
+ */
+export type SObjectGeneratedFiles = {
+    [sobject: string]: GeneratedFile[];
+};
+
+type SObjectQuickPickItem = QuickPickItem & { sobject: string };
+
+/**
+ * Shows the files of a dry run of the LWC quick action generation before they land in the project:
+ * the new files of each sObject in one read-only document, and a diff of every existing file they
+ * would overwrite. The user then accepts all of them, the ones of some sObjects, or none.
+ */
+export class LwcGenerationPreview {
+    static readonly SCHEME = 'sfmobile-lwc-preview';
+    static readonly PREVIEW_CONFIG_PROPERTY =
+        'mobileOfflineLwcGeneration.previewGeneratedFiles';
+
+    static readonly ACCEPT_ALL_LABEL = l10n.t('Accept All');
+    static readonly ACCEPT_PER_OBJECT_LABEL = l10n.t('Accept per Object');
+    static readonly CANCEL_LABEL = l10n.t('Cancel');
+
+    // the contents of the preview documents, by uri path, until they are closed or answered
+    private static contents = new Map<string, string>();
+    private static contentChanged = new EventEmitter<Uri>();
+
+    static readonly CONTENT_PROVIDER: TextDocumentContentProvider = {
+        onDidChange: LwcGenerationPreview.contentChanged.event,
+        provideTextDocumentContent(uri: Uri): string {
+            return LwcGenerationPreview.contents.get(uri.path) ?? '';
+        }
+    };
+
+    /**
+     * @returns whether the generated files are previewed before they are written.
+     */
+    static isEnabled(): boolean {
+        return (
+            workspace
+                .getConfiguration()
+                .get<boolean>(this.PREVIEW_CONFIG_PROPERTY) ?? false
+        );
+    }
+
+    /**
+     * @returns the document listing the given files one after the other, each one under its path.
+     */
+    static getPreviewContent(files: GeneratedFile[]): string {
+        return files
+            .map(
+                (file) =>
+                    `==> ${file.filePath.split(path.sep).join('/')} <==\n${file.content}`
+            )
+            .join('\n');
+    }
+
+    /**
+     * Opens the preview of the given files.
+     * @returns the uris of the preview documents, to release once the files are accepted or not.
+     */
+    static async showFiles(
+        generatedFiles: SObjectGeneratedFiles
+    ): Promise<Uri[]> {
+        const previewUris: Uri[] = [];
+        for (const sobject in generatedFiles) {
+            const newFiles: GeneratedFile[] = [];
+            for (const file of generatedFiles[sobject]) {
+                if (!fs.existsSync(file.filePath)) {
+                    newFiles.push(file);
+                    continue;
+                }
+                const previewUri = this.getPreviewUri(
+                    file.filePath.split(path.sep).join('/'),
+                    file.content
+                );
+                previewUris.push(previewUri);
+                await commands.executeCommand(
+                    'vscode.diff',
+                    Uri.file(path.resolve(file.filePath)),
+                    previewUri,
+                    l10n.t("'{0}' ↔ generated", path.basename(file.filePath)),
+                    { preview: false }
+                );
+            }
+            if (newFiles.length > 0) {
+                const previewUri = this.getPreviewUri(
+                    l10n.t('{0} LWC quick actions', sobject),
+                    this.getPreviewContent(newFiles)
+                );
+                previewUris.push(previewUri);
+                await window.showTextDocument(
+                    await workspace.openTextDocument(previewUri),
+                    { preview: false }
+                );
+            }
+        }
+        return previewUris;
+    }
+
+    /**
+     * Asks the user which of the previewed files to write.
+     * @returns the sObjects whose files are accepted, or undefined if the user cancelled.
+     */
+    static async selectAcceptedSObjects(
+        generatedFiles: SObjectGeneratedFiles
+    ): Promise<string[] | undefined> {
+        const sobjects = Object.keys(generatedFiles);
+        const fileCount = sobjects.reduce(
+            (count, sobject) => count + generatedFiles[sobject].length,
+            0
+        );
+        const choice = await window.showQuickPick(
+            [
+                this.ACCEPT_ALL_LABEL,
+                this.ACCEPT_PER_OBJECT_LABEL,
+                this.CANCEL_LABEL
+            ],
+            {
+                placeHolder: l10n.t(
+                    'Write the {0} previewed files of {1}?',
+                    fileCount,
+                    sobjects.join(', ')
+                ),
+                ignoreFocusOut: true
+            }
+        );
+        if (choice === this.ACCEPT_ALL_LABEL) {
+            return sobjects;
+        }
+        if (choice !== this.ACCEPT_PER_OBJECT_LABEL) {
+            return undefined;
+        }
+
+        const selected = await window.showQuickPick<SObjectQuickPickItem>(
+            sobjects.map((sobject) => {
+                return {
+                    label: sobject,
+                    description: l10n.t(
+                        '{0} files',
+                        generatedFiles[sobject].length
+                    ),
+                    sobject
+                };
+            }),
+            {
+                placeHolder: l10n.t('Select the sObjects whose files to write'),
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        return selected?.map((item) => item.sobject);
+    }
+
+    /**
+     * Writes the files of the given sObjects.
+     */
+    static writeFiles(
+        generatedFiles: SObjectGeneratedFiles,
+        sobjects: string[]
+    ) {
+        for (const sobject of sobjects) {
+            for (const file of generatedFiles[sobject] ?? []) {
+                CodeBuilder.writeGeneratedFile(file);
+            }
+        }
+    }
+
+    /**
+     * Drops the contents of preview documents, which stay as they are if still open.
+     */
+    static releaseContents(previewUris: Uri[]) {
+        for (const uri of previewUris) {
+            this.contents.delete(uri.path);
+        }
+    }
+
+    /**
+     * @param documentPath The path of the preview document, ie: the one of the previewed file.
+     * @returns the uri of a read-only document of the given content.
+     */
+    static getPreviewUri(documentPath: string, content: string): Uri {
+        const uri = Uri.from({
+            scheme: this.SCHEME,
+            path: `/${documentPath}`
+        });
+        this.contents.set(uri.path, content);
+        // refreshes the document if it is still open from an earlier preview
+        this.contentChanged.fire(uri);
+        return uri;
+    }
+}
+
+export function registerContentProvider(context: ExtensionContext) {
+    context.subscriptions.push(
+        workspace.registerTextDocumentContentProvider(
+            LwcGenerationPreview.SCHEME,
+            LwcGenerationPreview.CONTENT_PROVIDER
+        ),
+        workspace.onDidCloseTextDocument((document) => {
+            if (document.uri.scheme === LwcGenerationPreview.SCHEME) {
+                LwcGenerationPreview.releaseContents([document.uri]);
+            }
+        })
+    );
+}
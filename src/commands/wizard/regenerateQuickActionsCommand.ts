@@ -0,0 +1,277 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    workspace,
+    ExtensionContext,
+    Uri
+} from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeBuilder, GeneratedFile } from '../../utils/codeBuilder';
+import { GeneratedFileMarker } from '../../utils/generatedFileMarker';
+import {
+    LwcGenerationCommand,
+    QuickActionStatus
+} from './lwcGenerationCommand';
+import { LwcGenerationPreview } from './lwcGenerationPreview';
+
+const regenerateQuickActionsCommand =
+    'salesforcedx-vscode-offline-app.regenerateQuickActions';
+
+export type QuickActionRegeneration = {
+    // files written as regenerated
+    written: string[];
+    // edited files opened in a three-way merge with the regenerated ones
+    merged: string[];
+    // edited files left as is, ie: only diffed as the merge editor could not be opened, and
+    // regenerated files the user did not accept
+    kept: string[];
+};
+
+/**
+ * Regenerates the view, edit and create LWC quick actions of an sObject, ie: once its compact layout
+ * changed. The files that are as generated are replaced, and the ones edited since are merged with
+ * the regenerated ones, replaced or kept, as the user chooses.
+ */
+export class RegenerateQuickActionsCommand {
+    static readonly MERGE_LABEL = l10n.t('Merge');
+    static readonly OVERWRITE_LABEL = l10n.t('Overwrite');
+    static readonly KEEP_LABEL = l10n.t('Keep Edits');
+
+    /**
+     * @param quickActions The quick actions to regenerate, all of them by default.
+     */
+    static async regenerateForSObject(
+        extensionUri: Uri,
+        sobject: string,
+        quickActions: (keyof QuickActionStatus)[] = ['view', 'edit', 'create']
+    ): Promise<QuickActionRegeneration> {
+        const codeBuilder = await LwcGenerationCommand.createCodeBuilder(
+            extensionUri,
+            sobject
+        );
+        codeBuilder.dryRun = true;
+        if (quickActions.includes('view')) {
+            await codeBuilder.generateView();
+        }
+        if (quickActions.includes('edit')) {
+            await codeBuilder.generateEdit();
+        }
+        if (quickActions.includes('create')) {
+            await codeBuilder.generateCreate();
+        }
+
+        const regeneration: QuickActionRegeneration = {
+            written: [],
+            merged: [],
+            kept: []
+        };
+        const safeFiles: GeneratedFile[] = [];
+        const editedFiles: GeneratedFile[] = [];
+        for (const file of codeBuilder.generatedFiles) {
+            const state = GeneratedFileMarker.getState(file.filePath);
+            if (state === 'missing') {
+                safeFiles.push(file);
+            } else if (state === 'untouched') {
+                // leave out the files the regeneration does not change
+                if (fs.readFileSync(file.filePath, 'utf8') !== file.content) {
+                    safeFiles.push(file);
+                }
+            } else {
+                editedFiles.push(file);
+            }
+        }
+
+        if (safeFiles.length > 0) {
+            let accepted = true;
+            if (LwcGenerationPreview.isEnabled()) {
+                const previewUris = await LwcGenerationPreview.showFiles({
+                    [sobject]: safeFiles
+                });
+                const sobjects =
+                    await LwcGenerationPreview.selectAcceptedSObjects({
+                        [sobject]: safeFiles
+                    });
+                LwcGenerationPreview.releaseContents(previewUris);
+                accepted = sobjects?.includes(sobject) ?? false;
+            }
+            for (const file of safeFiles) {
+                if (accepted) {
+                    CodeBuilder.writeGeneratedFile(file);
+                    regeneration.written.push(file.filePath);
+                } else {
+                    regeneration.kept.push(file.filePath);
+                }
+            }
+        }
+
+        for (const file of editedFiles) {
+            const choice = await this.resolveEditedFile(file);
+            if (choice === this.OVERWRITE_LABEL) {
+                CodeBuilder.writeGeneratedFile(file);
+                regeneration.written.push(file.filePath);
+            } else if (
+                choice === this.MERGE_LABEL &&
+                (await this.openMergeEditor(file))
+            ) {
+                regeneration.merged.push(file.filePath);
+            } else {
+                regeneration.kept.push(file.filePath);
+            }
+        }
+        return regeneration;
+    }
+
+    /**
+     * Asks the user what to do with a file edited since it was generated. Without the content it was
+     * generated with, ie: for a file generated by an earlier version, it cannot be merged.
+     * @returns the label of the choice, or undefined if the user cancelled.
+     */
+    static async resolveEditedFile(
+        file: GeneratedFile
+    ): Promise<string | undefined> {
+        const canMerge = fs.existsSync(
+            GeneratedFileMarker.getBaseFilePath(file.filePath)
+        );
+        return window.showQuickPick(
+            canMerge
+                ? [this.MERGE_LABEL, this.OVERWRITE_LABEL, this.KEEP_LABEL]
+                : [this.OVERWRITE_LABEL, this.KEEP_LABEL],
+            {
+                placeHolder: l10n.t(
+                    "'{0}' was edited since it was generated.",
+                    path.basename(file.filePath)
+                ),
+                ignoreFocusOut: true
+            }
+        );
+    }
+
+    /**
+     * Opens the three-way merge of an edited file with the regenerated one, from the content they were
+     * both generated from. The regenerated content becomes the base of the next regeneration once the
+     * merge is saved. Falls back to a diff if the merge editor cannot be opened.
+     * @returns true if the merge editor was opened.
+     */
+    private static async openMergeEditor(
+        file: GeneratedFile
+    ): Promise<boolean> {
+        const fileUri = Uri.file(path.resolve(file.filePath));
+        const regeneratedUri = LwcGenerationPreview.getPreviewUri(
+            file.filePath.split(path.sep).join('/'),
+            file.content
+        );
+        try {
+            await commands.executeCommand('_open.mergeEditor', {
+                base: Uri.file(
+                    path.resolve(
+                        GeneratedFileMarker.getBaseFilePath(file.filePath)
+                    )
+                ),
+                input1: { uri: fileUri, title: l10n.t('Edited') },
+                input2: { uri: regeneratedUri, title: l10n.t('Regenerated') },
+                output: fileUri
+            });
+        } catch (err) {
+            console.warn('Could not open the merge editor.', err);
+            await commands.executeCommand(
+                'vscode.diff',
+                fileUri,
+                regeneratedUri,
+                l10n.t("'{0}' ↔ regenerated", path.basename(file.filePath))
+            );
+            return false;
+        }
+
+        // the merge editor is open, not done: the edits are merged once the output is saved
+        const listeners = [
+            workspace.onDidSaveTextDocument((document) => {
+                if (document.uri.fsPath === fileUri.fsPath) {
+                    CodeBuilder.writeGeneratedBase(file);
+                    listeners.forEach((listener) => listener.dispose());
+                }
+            }),
+            workspace.onDidCloseTextDocument((document) => {
+                if (document.uri.fsPath === fileUri.fsPath) {
+                    listeners.forEach((listener) => listener.dispose());
+                }
+            })
+        ];
+        return true;
+    }
+
+    /**
+     * @returns the sObject the user picks among the ones of the landing pages, or undefined if the
+     * user cancelled.
+     */
+    static async selectSObject(): Promise<string | undefined> {
+        const { sobjects } =
+            await LwcGenerationCommand.getSObjectsFromLandingPage();
+        return window.showQuickPick(sobjects, {
+            placeHolder: l10n.t(
+                'Select the sObject to regenerate the LWC quick actions of'
+            ),
+            ignoreFocusOut: true
+        });
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(
+            regenerateQuickActionsCommand,
+            async (sobject?: string) => {
+                try {
+                    const objectApiName =
+                        sobject ??
+                        (await RegenerateQuickActionsCommand.selectSObject());
+                    if (!objectApiName) {
+                        return;
+                    }
+                    const regeneration =
+                        await RegenerateQuickActionsCommand.regenerateForSObject(
+                            context.extensionUri,
+                            objectApiName
+                        );
+                    if (
+                        regeneration.written.length === 0 &&
+                        regeneration.merged.length === 0 &&
+                        regeneration.kept.length === 0
+                    ) {
+                        window.showInformationMessage(
+                            l10n.t(
+                                'The LWC quick actions of {0} are up to date.',
+                                objectApiName
+                            )
+                        );
+                        return;
+                    }
+                    window.showInformationMessage(
+                        l10n.t(
+                            'Regenerated {0} files of the LWC quick actions of {1}, merging {2} and keeping {3}.',
+                            regeneration.written.length,
+                            objectApiName,
+                            regeneration.merged.length,
+                            regeneration.kept.length
+                        )
+                    );
+                } catch (err) {
+                    window.showErrorMessage(
+                        l10n.t(
+                            'Could not regenerate the LWC quick actions: {0}',
+                            `${err}`
+                        )
+                    );
+                }
+            }
+        )
+    );
+}
@@ -0,0 +1,204 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    ExtensionContext,
+    ProgressLocation,
+    QuickPickItem,
+    Uri
+} from 'vscode';
+import { OrgUtils } from '../../utils/orgUtils';
+import {
+    LwcGenerationCommand,
+    QuickActionStatus,
+    SObjectQuickActionStatus
+} from './lwcGenerationCommand';
+import { RegenerateQuickActionsCommand } from './regenerateQuickActionsCommand';
+
+const generateQuickActionsForSObjectsCommand =
+    'salesforcedx-vscode-offline-app.generateQuickActionsForSObjects';
+
+type SObjectQuickPickItem = QuickPickItem & { sobject: string };
+
+type QuickActionQuickPickItem = QuickPickItem & {
+    sobject: string;
+    quickAction: keyof QuickActionStatus;
+};
+
+/**
+ * Generates the LWC quick actions of any sObjects of the org, picked by the user, whether they are on
+ * a landing page or not. Existing quick actions are regenerated, so their edits are merged or kept as
+ * the user chooses.
+ */
+export class SObjectQuickActionsCommand {
+    static readonly QUICK_ACTIONS: (keyof QuickActionStatus)[] = [
+        'view',
+        'edit',
+        'create'
+    ];
+
+    static async generateForSObjects(
+        extensionUri: Uri
+    ): Promise<SObjectQuickActionStatus | undefined> {
+        const sobjects = await this.selectSObjects();
+        if (!sobjects || sobjects.length === 0) {
+            return undefined;
+        }
+        const quickActionStatus = await this.selectQuickActions(sobjects);
+        if (!quickActionStatus) {
+            return undefined;
+        }
+
+        return window.withProgress(
+            {
+                location: ProgressLocation.Notification,
+                title: l10n.t(
+                    'Generating the LWC quick actions of {0}...',
+                    sobjects.join(', ')
+                )
+            },
+            async () => {
+                const skippedSObjects: string[] = [];
+                for (const sobject of sobjects) {
+                    const quickActions = this.QUICK_ACTIONS.filter(
+                        (quickAction) =>
+                            !quickActionStatus.sobjects[sobject][quickAction]
+                    );
+                    if (quickActions.length === 0) {
+                        continue;
+                    }
+                    try {
+                        await RegenerateQuickActionsCommand.regenerateForSObject(
+                            extensionUri,
+                            sobject,
+                            quickActions
+                        );
+                    } catch (err) {
+                        console.error(
+                            `Could not generate quick actions for sobject ${sobject}, so skipping`,
+                            err
+                        );
+                        skippedSObjects.push(sobject);
+                    }
+                }
+                if (skippedSObjects.length > 0) {
+                    window.showWarningMessage(
+                        l10n.t(
+                            'Could not generate the LWC quick actions of {0}, so they were skipped.',
+                            skippedSObjects.join(', ')
+                        )
+                    );
+                }
+                return LwcGenerationCommand.getQuickActionStatus(sobjects);
+            }
+        );
+    }
+
+    /**
+     * Prompts the user to pick sObjects of the org, searchable by label and api name.
+     * @returns the api names of the picked sObjects, or undefined if the user cancelled.
+     */
+    static async selectSObjects(): Promise<string[] | undefined> {
+        const items = OrgUtils.getSobjects().then((sobjects) =>
+            sobjects.map((sobject) => {
+                return {
+                    label: sobject.label,
+                    description: sobject.apiName,
+                    sobject: sobject.apiName
+                };
+            })
+        );
+        const selected = await window.showQuickPick<SObjectQuickPickItem>(
+            items,
+            {
+                placeHolder: l10n.t(
+                    'Select the sObjects to generate LWC quick actions for'
+                ),
+                canPickMany: true,
+                matchOnDescription: true,
+                ignoreFocusOut: true
+            }
+        );
+        return selected?.map((item) => item.sobject);
+    }
+
+    /**
+     * Prompts the user to pick which of the view, edit and create quick actions to generate for each
+     * sObject. The missing ones are picked to start with.
+     * @returns the status of the quick actions, with the picked ones as missing so they are
+     * (re)generated, or undefined if the user cancelled.
+     */
+    static async selectQuickActions(
+        sobjects: string[]
+    ): Promise<SObjectQuickActionStatus | undefined> {
+        const existing = LwcGenerationCommand.getQuickActionStatus(sobjects);
+        const items: QuickActionQuickPickItem[] = [];
+        for (const sobject of sobjects) {
+            for (const quickAction of this.QUICK_ACTIONS) {
+                const exists = existing.sobjects[sobject][quickAction];
+                items.push({
+                    // the name of the quick action, ie: Account.view
+                    label: `${sobject}.${quickAction}`,
+                    description: exists
+                        ? l10n.t(
+                              'Regenerates the existing quick action, asking about its edits'
+                          )
+                        : undefined,
+                    picked: !exists,
+                    sobject,
+                    quickAction
+                });
+            }
+        }
+        const selected = await window.showQuickPick(items, {
+            placeHolder: l10n.t('Select the LWC quick actions to generate'),
+            canPickMany: true,
+            ignoreFocusOut: true
+        });
+        if (!selected) {
+            return undefined;
+        }
+
+        const quickActionStatus: SObjectQuickActionStatus = { sobjects: {} };
+        for (const sobject of sobjects) {
+            quickActionStatus.sobjects[sobject] = {
+                view: true,
+                edit: true,
+                create: true
+            };
+        }
+        for (const item of selected) {
+            quickActionStatus.sobjects[item.sobject][item.quickAction] = false;
+        }
+        return quickActionStatus;
+    }
+}
+
+export function registerCommand(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand(
+            generateQuickActionsForSObjectsCommand,
+            async () => {
+                try {
+                    await SObjectQuickActionsCommand.generateForSObjects(
+                        context.extensionUri
+                    );
+                } catch (err) {
+                    window.showErrorMessage(
+                        l10n.t(
+                            'Could not generate the LWC quick actions: {0}',
+                            `${err}`
+                        )
+                    );
+                }
+            }
+        )
+    );
+}
@@ -5,40 +5,82 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
  */
 
-import { Uri, l10n } from 'vscode';
+import {
+    ConfigurationTarget,
+    QuickPickItem,
+    Uri,
+    commands,
+    l10n
+} from 'vscode';
 import { ProgressLocation, window, workspace } from 'vscode';
 import * as path from 'path';
-import { access, copyFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
+import { access, copyFile, readFile, readdir, writeFile } from 'fs/promises';
 import { InstructionsWebviewProvider } from '../../webviews/instructions';
 import { WorkspaceUtils } from '../../utils/workspaceUtils';
+import { UEMBuilder, UEMCardMergePlan } from '../../utils/uemBuilder';
+import {
+    LandingPageTemplate,
+    LandingPageTemplateLibrary,
+    LandingPageTemplateSource
+} from '../../utils/landingPageTemplateLibrary';
+import { LandingPageBackups } from '../../utils/landingPageBackups';
+import { StaticResourceMetadata } from '../../utils/staticResourceMetadata';
+import { JSON_INDENTATION_SPACES } from '../../utils/constants';
+import type { UEMCard } from '../../types';
 
 export type LandingPageStatus = {
     exists: boolean;
     warning?: string;
 };
 
-export type LandingPageType =
-    | 'existing'
-    | 'default'
-    | 'caseManagement'
-    | 'healthcare'
-    | 'retail';
+// 'existing' for the active landing page, otherwise the id of a discovered template, ie: "caseManagement"
+// for one of the starter kit or "folder:field_service" for a team template
+export type LandingPageType = string;
+
+export type LandingPageTemplateStatus = LandingPageStatus & {
+    id: string;
+    title: string;
+    description?: string;
+    // data URI of the thumbnail
+    thumbnail?: string;
+    source: LandingPageTemplateSource;
+};
 
 export type LandingPageCollectionStatus = {
     error?: string;
+    // the active landing page and every template, by landing page type
     landingPageCollection: {
         [landingPageType in LandingPageType]?: LandingPageStatus;
     };
+    // every template that can be chosen, the ones of the starter kit first
+    templates?: LandingPageTemplateStatus[];
+    // names of the landing pages of the project, ie: "landing_page_sales"
+    landingPages?: string[];
+    // the landing page the 'existing' status refers to
+    activeLandingPage?: string;
 };
 
+export type LandingPageChoice = {
+    landingPageType?: LandingPageType;
+    // the template to copy, ie: "folder:field_service"; the one of landingPageType by default
+    templateId?: string;
+    // the landing page to keep, or to write the template to; the active one by default
+    landingPageName?: string;
+};
+
+type CardQuickPickItem = QuickPickItem & { index: number };
+
 /**
- * This command will prompt the user to select one of the canned landing page templates, and will simply copy it to "landing_page.json".
+ * This command will prompt the user to select one of the canned landing page templates, and will simply copy it to "landing_page.json",
+ * or to another named landing page of the project (ie: "landing_page_sales.json"), one per persona.
  * When the project is deployed to the user's org, this file will also be copied into static resources and picked up by SApp+.
  */
 export class TemplateChooserCommand {
     static readonly LANDING_PAGE_FILENAME_PREFIX = 'landing_page';
     static readonly LANDING_PAGE_JSON_FILE_EXTENSION = '.json';
     static readonly LANDING_PAGE_METADATA_FILE_EXTENSION = '.resource-meta.xml';
+    // of the default landing page and of the starter kit templates
     static readonly LANDING_PAGE_FILENAME_PREFIXES: {
         [landingPageType in LandingPageType]: string;
     } = {
@@ -48,6 +90,91 @@ export class TemplateChooserCommand {
         healthcare: `${this.LANDING_PAGE_FILENAME_PREFIX}_healthcare`,
         retail: `${this.LANDING_PAGE_FILENAME_PREFIX}_retail_execution`
     };
+    static readonly ACTIVE_LANDING_PAGE_CONFIG_PROPERTY =
+        'mobileOfflineLandingPage.activeLandingPage';
+
+    /**
+     * @returns the name of the landing page the extension edits, previews and validates, "landing_page"
+     * unless another one was selected.
+     */
+    static getActiveLandingPageName(): string {
+        const name = workspace
+            .getConfiguration()
+            .get<string>(this.ACTIVE_LANDING_PAGE_CONFIG_PROPERTY);
+        return name && UEMBuilder.isValidApiName(name)
+            ? name
+            : this.LANDING_PAGE_FILENAME_PREFIXES.existing;
+    }
+
+    static async setActiveLandingPageName(name: string): Promise<void> {
+        await workspace
+            .getConfiguration()
+            .update(
+                this.ACTIVE_LANDING_PAGE_CONFIG_PROPERTY,
+                name,
+                ConfigurationTarget.Workspace
+            );
+    }
+
+    /**
+     * @returns the file name prefixes of the canned templates, which cannot name a landing page.
+     */
+    static getTemplateNames(): string[] {
+        return Object.values(this.LANDING_PAGE_FILENAME_PREFIXES).filter(
+            (prefix) => prefix !== this.LANDING_PAGE_FILENAME_PREFIXES.existing
+        );
+    }
+
+    /**
+     * @returns the names of the landing pages in the static resources, without the templates, the
+     * default "landing_page" first.
+     */
+    static async getLandingPageNames(
+        staticResourcesPath: string
+    ): Promise<string[]> {
+        const templateNames = this.getTemplateNames();
+        const filenames = await readdir(staticResourcesPath);
+        return filenames
+            .filter(
+                (filename) =>
+                    filename.startsWith(this.LANDING_PAGE_FILENAME_PREFIX) &&
+                    filename.endsWith(this.LANDING_PAGE_JSON_FILE_EXTENSION)
+            )
+            .map((filename) =>
+                filename.slice(0, -this.LANDING_PAGE_JSON_FILE_EXTENSION.length)
+            )
+            .filter(
+                (name) =>
+                    UEMBuilder.isValidApiName(name) &&
+                    !templateNames.includes(name)
+            )
+            .sort((a, b) =>
+                a === this.LANDING_PAGE_FILENAME_PREFIXES.existing
+                    ? -1
+                    : b === this.LANDING_PAGE_FILENAME_PREFIXES.existing
+                      ? 1
+                      : a.localeCompare(b)
+            );
+    }
+
+    /**
+     * Normalizes a name typed by the user, ie: "Sales" gives "landing_page_sales".
+     */
+    static toLandingPageName(name: string): string {
+        const trimmed = name.trim();
+        return trimmed.startsWith(this.LANDING_PAGE_FILENAME_PREFIX)
+            ? trimmed
+            : UEMBuilder.toApiName(trimmed);
+    }
+
+    /**
+     * @returns the file name prefix of a landing page type. The existing landing page is the active one.
+     */
+    static getFilenamePrefix(landingPageType: LandingPageType): string {
+        return landingPageType === 'existing'
+            ? this.getActiveLandingPageName()
+            : this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType];
+    }
 
     public static async chooseTemplate(extensionUri: Uri) {
         return new Promise<void>((resolve) => {
@@ -60,9 +187,8 @@ export class TemplateChooserCommand {
                     {
                         type: 'landingPageChosen',
                         action: async (panel, data) => {
-                            const landingPageChosenData = data as {
-                                landingPageType: LandingPageType;
-                            };
+                            const landingPageChosenData =
+                                data as LandingPageChoice;
                             const completed = await this.onLandingPageChosen(
                                 landingPageChosenData
                             );
@@ -89,34 +215,116 @@ export class TemplateChooserCommand {
 
     /**
      * This will copy the chosen template files to landing_page.json and
-     * landing_page.resource-meta.xml in the staticresources folder of the project.
+     * landing_page.resource-meta.xml (or those of the chosen landing page name) in the
+     * staticresources folder of the project, and make that landing page the active one.
      * @param choiceData The data object containing the landing page type the user
-     * selected.
+     * selected, and optionally the name of the landing page.
      */
-    static async onLandingPageChosen(choiceData: {
-        landingPageType: LandingPageType;
-    }): Promise<boolean> {
+    static async onLandingPageChosen(
+        choiceData: LandingPageChoice
+    ): Promise<boolean> {
         return new Promise<boolean>(async (resolve) => {
             const landingPageType = choiceData.landingPageType;
+            const activeLandingPageName = this.getActiveLandingPageName();
+            const landingPageName = choiceData.landingPageName
+                ? this.toLandingPageName(choiceData.landingPageName)
+                : activeLandingPageName;
+            if (
+                !UEMBuilder.isValidApiName(landingPageName) ||
+                this.getTemplateNames().includes(landingPageName)
+            ) {
+                await window.showErrorMessage(
+                    l10n.t(
+                        "'{0}' cannot be used as a landing page name.",
+                        landingPageName
+                    )
+                );
+                return resolve(false);
+            }
+            const activate = async () => {
+                if (landingPageName !== activeLandingPageName) {
+                    await this.setActiveLandingPageName(landingPageName);
+                }
+            };
 
-            // Nothing to do if the user chose to keep their existing landing page.
+            // Nothing to copy if the user chose to keep their existing landing page.
             if (landingPageType === 'existing') {
+                const staticResourcesPath =
+                    await WorkspaceUtils.getStaticResourcesDir().catch(
+                        () => undefined
+                    );
+                const { jsonFileExists } = staticResourcesPath
+                    ? await this.landingPageFilesExistForPrefix(
+                          staticResourcesPath,
+                          landingPageName
+                      )
+                    : { jsonFileExists: false };
+                if (
+                    !jsonFileExists &&
+                    landingPageName !== activeLandingPageName
+                ) {
+                    await window.showErrorMessage(
+                        l10n.t(
+                            "There is no landing page named '{0}' to keep.",
+                            landingPageName
+                        )
+                    );
+                    return resolve(false);
+                }
+                // the kept landing page may have been added without its metadata
+                if (staticResourcesPath && jsonFileExists) {
+                    await StaticResourceMetadata.ensureExists(
+                        staticResourcesPath,
+                        landingPageName
+                    );
+                }
+                await activate();
                 return resolve(true);
             }
 
-            // If a landing page exists, warn about overwriting it.
             const staticResourcesPath =
                 await WorkspaceUtils.getStaticResourcesDir();
-            const existingLandingPageFiles = await this.landingPageFilesExist(
-                staticResourcesPath,
-                'existing'
-            );
+            const templateId = choiceData.templateId ?? landingPageType;
+            const template = (
+                await LandingPageTemplateLibrary.getTemplates(
+                    staticResourcesPath
+                )
+            ).find((candidate) => candidate.id === templateId);
+            if (!template) {
+                await window.showErrorMessage(
+                    l10n.t(
+                        "The landing page template '{0}' does not exist.",
+                        `${templateId}`
+                    )
+                );
+                return resolve(false);
+            }
+
+            // If a landing page exists, warn about overwriting it.
+            const existingLandingPageFiles =
+                await this.landingPageFilesExistForPrefix(
+                    staticResourcesPath,
+                    landingPageName
+                );
             if (
                 existingLandingPageFiles.jsonFileExists ||
                 existingLandingPageFiles.metaFileExists
             ) {
                 const confirmOverwrite =
-                    await this.askUserToOverwriteLandingPage();
+                    await this.askUserToOverwriteLandingPage(
+                        existingLandingPageFiles.jsonFileExists
+                    );
+                if (confirmOverwrite === l10n.t('Merge')) {
+                    const merged = await this.mergeTemplate(
+                        template,
+                        staticResourcesPath,
+                        landingPageName
+                    );
+                    if (merged) {
+                        await activate();
+                    }
+                    return resolve(merged);
+                }
                 if (
                     confirmOverwrite === l10n.t('No') ||
                     confirmOverwrite === undefined
@@ -126,23 +334,31 @@ export class TemplateChooserCommand {
                     );
                     return resolve(false);
                 }
+                if (
+                    !(await this.backupLandingPage(
+                        staticResourcesPath,
+                        landingPageName
+                    ))
+                ) {
+                    return resolve(false);
+                }
             }
 
-            // Copy both the json and metadata files.
-            const sourceFilenamePrefix =
-                this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType];
-            const destFilenamePrefix =
-                this.LANDING_PAGE_FILENAME_PREFIXES.existing;
-            for (const fileExtension of [
-                this.LANDING_PAGE_JSON_FILE_EXTENSION,
-                this.LANDING_PAGE_METADATA_FILE_EXTENSION
-            ]) {
-                const sourceFilename = sourceFilenamePrefix + fileExtension;
-                const destFilename = destFilenamePrefix + fileExtension;
-                const sourcePath = path.join(
-                    staticResourcesPath,
-                    sourceFilename
-                );
+            // Copy both the json and metadata files. Templates without metadata get the default one.
+            const { metaFileExists } =
+                await LandingPageTemplateLibrary.templateFilesExist(template);
+            const copies: [string, string][] = [
+                [template.jsonPath, this.LANDING_PAGE_JSON_FILE_EXTENSION]
+            ];
+            if (metaFileExists) {
+                copies.push([
+                    template.metaPath,
+                    this.LANDING_PAGE_METADATA_FILE_EXTENSION
+                ]);
+            }
+            for (const [sourcePath, fileExtension] of copies) {
+                const sourceFilename = path.basename(sourcePath);
+                const destFilename = landingPageName + fileExtension;
                 const destinationPath = path.join(
                     staticResourcesPath,
                     destFilename
@@ -158,23 +374,261 @@ export class TemplateChooserCommand {
                         )
                     },
                     async (_progress, _token) => {
-                        await copyFile(sourcePath, destinationPath);
+                        if (
+                            fileExtension ===
+                            this.LANDING_PAGE_JSON_FILE_EXTENSION
+                        ) {
+                            await this.copyTemplateJson(
+                                sourcePath,
+                                destinationPath,
+                                landingPageName
+                            );
+                        } else {
+                            await copyFile(sourcePath, destinationPath);
+                        }
                     }
                 );
             }
+            if (!metaFileExists) {
+                await StaticResourceMetadata.ensureExists(
+                    staticResourcesPath,
+                    landingPageName
+                );
+            }
+            await activate();
             return resolve(true);
         });
     }
 
-    static askUserToOverwriteLandingPage(): Thenable<string | undefined> {
+    /**
+     * Copies the json of a template, named after the landing page it is copied to rather than after
+     * the template, with an id of its own. Content that is not a json object is copied as is.
+     */
+    static async copyTemplateJson(
+        sourcePath: string,
+        destinationPath: string,
+        landingPageName: string
+    ): Promise<void> {
+        const text = await readFile(sourcePath, 'utf8');
+        let uem: unknown;
+        try {
+            uem = JSON.parse(text);
+        } catch {
+            uem = undefined;
+        }
+        if (typeof uem !== 'object' || uem === null || Array.isArray(uem)) {
+            return copyFile(sourcePath, destinationPath);
+        }
+        return writeFile(
+            destinationPath,
+            JSON.stringify(
+                { ...uem, apiName: landingPageName, id: randomUUID() },
+                null,
+                JSON_INDENTATION_SPACES
+            )
+        );
+    }
+
+    /**
+     * @param canMerge Whether the template can be merged into the existing landing page instead.
+     */
+    static askUserToOverwriteLandingPage(
+        canMerge = false
+    ): Thenable<string | undefined> {
+        const choices = [l10n.t('Yes'), l10n.t('No')];
+        if (canMerge) {
+            choices.push(l10n.t('Merge'));
+        }
         return window.showWarningMessage(
             l10n.t(
                 'Are you sure you want to overwrite your existing landing page?'
             ),
             { modal: true },
-            l10n.t('Yes'),
-            l10n.t('No')
+            ...choices
+        );
+    }
+
+    /**
+     * Backs up the files of a landing page before they are overwritten.
+     * @returns false if the backup failed, in which case the landing page must not be overwritten.
+     */
+    static async backupLandingPage(
+        staticResourcesPath: string,
+        landingPageName: string
+    ): Promise<boolean> {
+        try {
+            await LandingPageBackups.backup(
+                staticResourcesPath,
+                landingPageName
+            );
+            return true;
+        } catch (err) {
+            await window.showErrorMessage(
+                l10n.t(
+                    'Could not back up the landing page, it was left unchanged: {0}',
+                    (err as Error).message
+                )
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Shows the differences between the existing landing page and the template, then merges the cards
+     * of the template the user selects into the landing page.
+     * @returns true if the landing page was merged, false if the user cancelled or it could not be.
+     */
+    static async mergeTemplate(
+        template: LandingPageTemplate,
+        staticResourcesPath: string,
+        landingPageName: string
+    ): Promise<boolean> {
+        const landingPagePath = path.join(
+            staticResourcesPath,
+            landingPageName + this.LANDING_PAGE_JSON_FILE_EXTENSION
+        );
+        let landingPage: UEMBuilder;
+        let templateCards: UEMCard[];
+        try {
+            landingPage = UEMBuilder.fromJson(
+                await readFile(landingPagePath, 'utf8')
+            );
+            templateCards = UEMBuilder.fromJson(
+                await readFile(template.jsonPath, 'utf8')
+            ).getCards();
+        } catch (err) {
+            await window.showErrorMessage(
+                l10n.t(
+                    'Could not merge the landing page template: {0}',
+                    (err as Error).message
+                )
+            );
+            return false;
+        }
+
+        await commands.executeCommand(
+            'vscode.diff',
+            Uri.file(landingPagePath),
+            Uri.file(template.jsonPath),
+            l10n.t("'{0}' ↔ '{1}'", landingPageName, template.title)
+        );
+        const plan = await this.selectCardMergePlan(
+            landingPage.getCards(),
+            templateCards
         );
+        if (!plan) {
+            console.info('User cancelled the merge of the landing page.');
+            return false;
+        }
+
+        if (
+            !(await this.backupLandingPage(
+                staticResourcesPath,
+                landingPageName
+            ))
+        ) {
+            return false;
+        }
+        await writeFile(
+            landingPagePath,
+            landingPage.mergeCards(templateCards, plan).toJson()
+        );
+        await StaticResourceMetadata.ensureExists(
+            staticResourcesPath,
+            landingPageName
+        );
+        return true;
+    }
+
+    /**
+     * Asks which cards of the landing page to keep, which cards of the template to add, and whether
+     * each added card replaces one of the kept cards.
+     * @returns the merge plan, or undefined if the user dismissed a prompt.
+     */
+    static async selectCardMergePlan(
+        cards: UEMCard[],
+        templateCards: UEMCard[]
+    ): Promise<UEMCardMergePlan | undefined> {
+        const kept = await window.showQuickPick<CardQuickPickItem>(
+            cards.map((card, index) => {
+                return {
+                    label: UEMBuilder.getCardLabel(card),
+                    picked: true,
+                    index
+                };
+            }),
+            {
+                placeHolder: l10n.t(
+                    'Select the cards of your landing page to keep'
+                ),
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        if (!kept) {
+            return undefined;
+        }
+        const added = await window.showQuickPick<CardQuickPickItem>(
+            templateCards.map((card, index) => {
+                return { label: UEMBuilder.getCardLabel(card), index };
+            }),
+            {
+                placeHolder: l10n.t('Select the cards of the template to add'),
+                canPickMany: true,
+                ignoreFocusOut: true
+            }
+        );
+        if (!added) {
+            return undefined;
+        }
+
+        const plan: UEMCardMergePlan = {
+            keep: kept.map((item) => item.index),
+            replace: [],
+            add: []
+        };
+        for (const templateItem of added) {
+            const replaceable = kept.filter(
+                (item) =>
+                    !plan.replace.some(
+                        (replace) => replace.index === item.index
+                    )
+            );
+            if (replaceable.length === 0) {
+                plan.add.push(templateItem.index);
+                continue;
+            }
+            const target = await window.showQuickPick<CardQuickPickItem>(
+                [
+                    { label: l10n.t('Add after your cards'), index: -1 },
+                    ...replaceable.map((item) => {
+                        return {
+                            label: l10n.t("Replace '{0}'", item.label),
+                            index: item.index
+                        };
+                    })
+                ],
+                {
+                    placeHolder: l10n.t(
+                        "Where should the template card '{0}' go?",
+                        templateItem.label
+                    ),
+                    ignoreFocusOut: true
+                }
+            );
+            if (!target) {
+                return undefined;
+            }
+            if (target.index < 0) {
+                plan.add.push(templateItem.index);
+            } else {
+                plan.replace.push({
+                    index: target.index,
+                    templateIndex: templateItem.index
+                });
+            }
+        }
+        return plan;
     }
 
     static async getLandingPageStatus(): Promise<LandingPageCollectionStatus> {
@@ -192,47 +646,74 @@ export class TemplateChooserCommand {
                 return resolve(landingPageCollectionStatus);
             }
 
-            for (const lptIndex in this.LANDING_PAGE_FILENAME_PREFIXES) {
-                const landingPageType = lptIndex as LandingPageType;
-                const landingPageFilesExist = await this.landingPageFilesExist(
-                    staticResourcesPath,
-                    landingPageType
-                );
-                const landingPageExists =
-                    landingPageFilesExist.jsonFileExists &&
-                    landingPageFilesExist.metaFileExists;
-                let warningMessage: string | undefined;
-                if (
-                    !landingPageFilesExist.jsonFileExists &&
-                    !landingPageFilesExist.metaFileExists
-                ) {
-                    warningMessage = l10n.t(
-                        "The landing page files '{0}{1}' and '{0}{2}' do not exist.",
-                        this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType],
-                        this.LANDING_PAGE_JSON_FILE_EXTENSION,
-                        this.LANDING_PAGE_METADATA_FILE_EXTENSION
-                    );
-                } else if (!landingPageFilesExist.metaFileExists) {
-                    warningMessage = l10n.t(
-                        "The landing page file '{0}{1}' does not exist",
-                        this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType],
-                        this.LANDING_PAGE_METADATA_FILE_EXTENSION
-                    );
-                } else if (!landingPageFilesExist.jsonFileExists) {
-                    warningMessage = l10n.t(
-                        "The landing page file '{0}{1}' does not exist",
-                        this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType],
-                        this.LANDING_PAGE_JSON_FILE_EXTENSION
-                    );
-                }
-                landingPageCollectionStatus.landingPageCollection[
-                    landingPageType
-                ] = { exists: landingPageExists, warning: warningMessage };
+            // A missing metadata file is generated when the landing page is used.
+            const { jsonFileExists } = await this.landingPageFilesExist(
+                staticResourcesPath,
+                'existing'
+            );
+            landingPageCollectionStatus.landingPageCollection.existing = {
+                exists: jsonFileExists,
+                warning: jsonFileExists
+                    ? undefined
+                    : l10n.t(
+                          "The landing page file '{0}{1}' does not exist",
+                          this.getFilenamePrefix('existing'),
+                          this.LANDING_PAGE_JSON_FILE_EXTENSION
+                      )
+            };
+            // the other landing page types are the templates discovered
+            const templates =
+                await this.getTemplateStatuses(staticResourcesPath);
+            for (const { id, exists, warning } of templates) {
+                landingPageCollectionStatus.landingPageCollection[id] = {
+                    exists,
+                    warning
+                };
             }
+            landingPageCollectionStatus.templates = templates;
+            landingPageCollectionStatus.landingPages =
+                await this.getLandingPageNames(staticResourcesPath);
+            landingPageCollectionStatus.activeLandingPage =
+                this.getActiveLandingPageName();
             return resolve(landingPageCollectionStatus);
         });
     }
 
+    /**
+     * @returns the templates the user can choose from. Only their json is needed, the metadata is
+     * generated if missing.
+     */
+    static async getTemplateStatuses(
+        staticResourcesPath: string
+    ): Promise<LandingPageTemplateStatus[]> {
+        const templateStatuses: LandingPageTemplateStatus[] = [];
+        for (const template of await LandingPageTemplateLibrary.getTemplates(
+            staticResourcesPath
+        )) {
+            const { jsonFileExists: exists } =
+                await LandingPageTemplateLibrary.templateFilesExist(template);
+            templateStatuses.push({
+                id: template.id,
+                title: template.title,
+                description: template.description,
+                thumbnail: template.thumbnailPath
+                    ? await LandingPageTemplateLibrary.getThumbnailDataUri(
+                          template.thumbnailPath
+                      )
+                    : undefined,
+                source: template.source,
+                exists,
+                warning: exists
+                    ? undefined
+                    : l10n.t(
+                          "The landing page template '{0}' does not exist.",
+                          template.jsonPath
+                      )
+            });
+        }
+        return templateStatuses;
+    }
+
     static getWorkspaceDir(): string {
         const workspaceFolders = workspace.workspaceFolders;
         if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -246,6 +727,19 @@ export class TemplateChooserCommand {
     static async landingPageFilesExist(
         staticResourcesPath: string,
         landingPageType: LandingPageType
+    ): Promise<{ jsonFileExists: boolean; metaFileExists: boolean }> {
+        return this.landingPageFilesExistForPrefix(
+            staticResourcesPath,
+            this.getFilenamePrefix(landingPageType)
+        );
+    }
+
+    /**
+     * @param filenamePrefix The name of the landing page static resource, ie: "landing_page_sales".
+     */
+    static async landingPageFilesExistForPrefix(
+        staticResourcesPath: string,
+        filenamePrefix: string
     ): Promise<{ jsonFileExists: boolean; metaFileExists: boolean }> {
         return new Promise<{
             jsonFileExists: boolean;
@@ -253,8 +747,7 @@ export class TemplateChooserCommand {
         }>(async (resolve) => {
             let jsonFileExists = true;
             const jsonFilename =
-                this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType] +
-                this.LANDING_PAGE_JSON_FILE_EXTENSION;
+                filenamePrefix + this.LANDING_PAGE_JSON_FILE_EXTENSION;
             const jsonFilePath = path.join(staticResourcesPath, jsonFilename);
             try {
                 await access(jsonFilePath);
@@ -266,8 +759,7 @@ export class TemplateChooserCommand {
             }
             let metaFileExists = true;
             const metaFilename =
-                this.LANDING_PAGE_FILENAME_PREFIXES[landingPageType] +
-                this.LANDING_PAGE_METADATA_FILE_EXTENSION;
+                filenamePrefix + this.LANDING_PAGE_METADATA_FILE_EXTENSION;
             const metaFilePath = path.join(staticResourcesPath, metaFilename);
             try {
                 await access(metaFilePath);
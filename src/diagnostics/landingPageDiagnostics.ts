@@ -0,0 +1,317 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    l10n,
+    languages,
+    workspace,
+    CancellationToken,
+    CodeAction,
+    CodeActionContext,
+    CodeActionKind,
+    CodeActionProvider,
+    Diagnostic,
+    DiagnosticCollection,
+    DiagnosticSeverity,
+    ExtensionContext,
+    Range,
+    TextDocument,
+    WorkspaceEdit
+} from 'vscode';
+import * as path from 'path';
+import {
+    findNodeAtLocation,
+    getNodeValue,
+    parseTree,
+    printParseErrorCode,
+    Node,
+    ParseError
+} from 'jsonc-parser';
+import { UEMProblem, UEMValidator } from '../utils/uemValidator';
+import { UEMOrgValidator } from '../utils/uemOrgValidator';
+import { WorkspaceUtils } from '../utils/workspaceUtils';
+import { TemplateChooserCommand } from '../commands/wizard/templateChooserCommand';
+
+const DIAGNOSTIC_COLLECTION_NAME = 'landingPage';
+export const DIAGNOSTIC_SOURCE = 'Landing Page';
+export const VALUE_TYPE_MISMATCH_CODE = 'valueTypeMismatch';
+
+/**
+ * A field declared with a value type that does not match its describe type. Carries the expected
+ * value type for the quick fix.
+ */
+export class ValueTypeDiagnostic extends Diagnostic {
+    readonly valueType: string;
+
+    constructor(range: Range, message: string, valueType: string) {
+        super(range, message, DiagnosticSeverity.Error);
+        this.valueType = valueType;
+        this.code = VALUE_TYPE_MISMATCH_CODE;
+    }
+}
+
+/**
+ * Reports the problems of the landing page files under static resources as diagnostics, whenever they
+ * are opened or saved. Structural problems are reported first, then the problems found against the
+ * metadata of the connected org, if any.
+ */
+export class LandingPageDiagnostics implements CodeActionProvider {
+    private diagnosticCollection: DiagnosticCollection;
+
+    // Last diagnostics set per document, to look up the value type diagnostics for quick fixes.
+    private diagnostics = new Map<string, Diagnostic[]>();
+
+    constructor(diagnosticCollection: DiagnosticCollection) {
+        this.diagnosticCollection = diagnosticCollection;
+    }
+
+    /**
+     * @returns true for the landing page json files under the static resources of the project.
+     */
+    static isLandingPageDocument(document: TextDocument): boolean {
+        if (document.uri.scheme !== 'file') {
+            return false;
+        }
+        let staticResourcesPath: string;
+        try {
+            staticResourcesPath = path.join(
+                WorkspaceUtils.getWorkspaceDir(),
+                WorkspaceUtils.STATIC_RESOURCES_PATH
+            );
+        } catch {
+            return false;
+        }
+        const filename = path.basename(document.uri.fsPath);
+        return (
+            path.dirname(document.uri.fsPath) === staticResourcesPath &&
+            filename.startsWith(
+                TemplateChooserCommand.LANDING_PAGE_FILENAME_PREFIX
+            ) &&
+            filename.endsWith(
+                TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+            )
+        );
+    }
+
+    /**
+     * Parses the document and converts the syntax errors, or the problems found by UEMValidator, to
+     * diagnostics.
+     */
+    static computeDiagnostics(document: TextDocument): Diagnostic[] {
+        const text = document.getText();
+        const parseErrors: ParseError[] = [];
+        const root = parseTree(text, parseErrors, {
+            disallowComments: true
+        });
+
+        if (parseErrors.length > 0 || !root) {
+            return parseErrors.map((parseError) => {
+                const diagnostic = new Diagnostic(
+                    new Range(
+                        document.positionAt(parseError.offset),
+                        document.positionAt(
+                            parseError.offset + parseError.length
+                        )
+                    ),
+                    printParseErrorCode(parseError.error),
+                    DiagnosticSeverity.Error
+                );
+                diagnostic.source = DIAGNOSTIC_SOURCE;
+                return diagnostic;
+            });
+        }
+
+        return UEMValidator.validate(getNodeValue(root)).map((problem) =>
+            LandingPageDiagnostics.toDiagnostic(document, root, problem)
+        );
+    }
+
+    /**
+     * Validates the document against the metadata of the connected org. Documents with syntax errors
+     * have no org diagnostics.
+     */
+    static async computeOrgDiagnostics(
+        document: TextDocument
+    ): Promise<Diagnostic[]> {
+        const parseErrors: ParseError[] = [];
+        const root = parseTree(document.getText(), parseErrors, {
+            disallowComments: true
+        });
+        if (parseErrors.length > 0 || !root) {
+            return [];
+        }
+
+        const problems = await UEMOrgValidator.validate(getNodeValue(root));
+        return problems.map((problem) =>
+            LandingPageDiagnostics.toDiagnostic(document, root, problem)
+        );
+    }
+
+    static toDiagnostic(
+        document: TextDocument,
+        root: Node,
+        problem: UEMProblem
+    ): Diagnostic {
+        // Report on the closest node that exists, ie: the parent of a missing property.
+        let node: Node | undefined;
+        for (let length = problem.path.length; length >= 0; length--) {
+            node = findNodeAtLocation(root, problem.path.slice(0, length));
+            if (node) {
+                break;
+            }
+        }
+        node = node ?? root;
+
+        // For a property, highlight the key rather than a (possibly large) value.
+        const keyNode =
+            node.parent?.type === 'property' &&
+            node.parent.children?.[1] === node
+                ? node.parent.children[0]
+                : undefined;
+        const rangeNode =
+            keyNode &&
+            (problem.onKey || node.type === 'object' || node.type === 'array')
+                ? keyNode
+                : node;
+        const range = new Range(
+            document.positionAt(rangeNode.offset),
+            document.positionAt(rangeNode.offset + rangeNode.length)
+        );
+
+        const diagnostic = problem.expectedValueType
+            ? new ValueTypeDiagnostic(
+                  range,
+                  problem.message,
+                  problem.expectedValueType
+              )
+            : new Diagnostic(
+                  range,
+                  problem.message,
+                  problem.severity === 'warning'
+                      ? DiagnosticSeverity.Warning
+                      : DiagnosticSeverity.Error
+              );
+        diagnostic.source = DIAGNOSTIC_SOURCE;
+        return diagnostic;
+    }
+
+    async refresh(document: TextDocument) {
+        if (!LandingPageDiagnostics.isLandingPageDocument(document)) {
+            return;
+        }
+        const version = document.version;
+        const diagnostics = LandingPageDiagnostics.computeDiagnostics(document);
+        this.setDiagnostics(document, diagnostics);
+
+        let orgDiagnostics: Diagnostic[];
+        try {
+            orgDiagnostics =
+                await LandingPageDiagnostics.computeOrgDiagnostics(document);
+        } catch (err) {
+            // ie: no org is connected
+            console.warn(
+                'Could not validate the landing page against the org.',
+                err
+            );
+            return;
+        }
+
+        // the document changed while the org was queried
+        if (document.isClosed || document.version !== version) {
+            return;
+        }
+        this.setDiagnostics(document, [...diagnostics, ...orgDiagnostics]);
+    }
+
+    clear(document: TextDocument) {
+        this.diagnostics.delete(document.uri.toString());
+        this.diagnosticCollection.delete(document.uri);
+    }
+
+    /**
+     * Offers to replace a mismatched value type by the one derived from the describe metadata.
+     */
+    provideCodeActions(
+        document: TextDocument,
+        _range: Range,
+        context: CodeActionContext,
+        _token: CancellationToken
+    ): CodeAction[] {
+        const codeActions: CodeAction[] = [];
+        const documentDiagnostics =
+            this.diagnostics.get(document.uri.toString()) ?? [];
+
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.code !== VALUE_TYPE_MISMATCH_CODE) {
+                continue;
+            }
+            const valueTypeDiagnostic = documentDiagnostics.find(
+                (d): d is ValueTypeDiagnostic =>
+                    d instanceof ValueTypeDiagnostic &&
+                    d.range.isEqual(diagnostic.range) &&
+                    d.message === diagnostic.message
+            );
+            if (!valueTypeDiagnostic) {
+                continue;
+            }
+
+            const codeAction = new CodeAction(
+                l10n.t(
+                    "Change the value type to '{0}'",
+                    valueTypeDiagnostic.valueType
+                ),
+                CodeActionKind.QuickFix
+            );
+            codeAction.edit = new WorkspaceEdit();
+            codeAction.edit.replace(
+                document.uri,
+                diagnostic.range,
+                JSON.stringify(valueTypeDiagnostic.valueType)
+            );
+            codeAction.diagnostics = [diagnostic];
+            codeAction.isPreferred = true;
+            codeActions.push(codeAction);
+        }
+        return codeActions;
+    }
+
+    private setDiagnostics(document: TextDocument, diagnostics: Diagnostic[]) {
+        this.diagnostics.set(document.uri.toString(), diagnostics);
+        this.diagnosticCollection.set(document.uri, diagnostics);
+    }
+}
+
+export function registerDiagnostics(context: ExtensionContext) {
+    const diagnosticCollection = languages.createDiagnosticCollection(
+        DIAGNOSTIC_COLLECTION_NAME
+    );
+    const landingPageDiagnostics = new LandingPageDiagnostics(
+        diagnosticCollection
+    );
+
+    context.subscriptions.push(
+        diagnosticCollection,
+        workspace.onDidOpenTextDocument((document) =>
+            landingPageDiagnostics.refresh(document)
+        ),
+        workspace.onDidSaveTextDocument((document) =>
+            landingPageDiagnostics.refresh(document)
+        ),
+        workspace.onDidCloseTextDocument((document) =>
+            landingPageDiagnostics.clear(document)
+        ),
+        languages.registerCodeActionsProvider(
+            { language: 'json', scheme: 'file' },
+            landingPageDiagnostics,
+            { providedCodeActionKinds: [CodeActionKind.QuickFix] }
+        )
+    );
+
+    workspace.textDocuments.forEach((document) =>
+        landingPageDiagnostics.refresh(document)
+    );
+}
@@ -10,6 +10,17 @@
 import * as vscode from 'vscode';
 import * as onboardingWizard from './commands/wizard/onboardingWizard';
 import * as configureLintingToolsCommand from './commands/lint/configureLintingToolsCommand';
+import * as landingPageCommand from './commands/wizard/landingPageCommand';
+import * as lwcGenerationPreview from './commands/wizard/lwcGenerationPreview';
+import * as regenerateQuickActionsCommand from './commands/wizard/regenerateQuickActionsCommand';
+import * as sobjectQuickActionsCommand from './commands/wizard/sobjectQuickActionsCommand';
+import * as landingPageEditorCommand from './commands/landingPage/landingPageEditorCommand';
+import * as landingPagePreviewCommand from './commands/landingPage/landingPagePreviewCommand';
+import * as selectLandingPageCommand from './commands/landingPage/selectLandingPageCommand';
+import * as restoreLandingPageCommand from './commands/landingPage/restoreLandingPageCommand';
+import * as repairLandingPageMetadataCommand from './commands/landingPage/repairLandingPageMetadataCommand';
+import * as landingPageDiagnostics from './diagnostics/landingPageDiagnostics';
+import * as landingPageTreeView from './views/landingPageTreeView';
 import { CoreExtensionService } from './services/CoreExtensionService';
 import { WorkspaceUtils } from './utils/workspaceUtils';
 
@@ -38,6 +49,19 @@ export function activate(context: vscode.ExtensionContext) {
     onboardingWizard.onActivate(context);
 
     configureLintingToolsCommand.registerCommand(context);
+
+    landingPageCommand.registerCommand(context);
+    lwcGenerationPreview.registerContentProvider(context);
+    regenerateQuickActionsCommand.registerCommand(context);
+    sobjectQuickActionsCommand.registerCommand(context);
+    landingPageEditorCommand.registerCommand(context);
+    landingPagePreviewCommand.registerCommand(context);
+    selectLandingPageCommand.registerCommand(context);
+    restoreLandingPageCommand.registerCommand(context);
+    repairLandingPageMetadataCommand.registerCommand(context);
+
+    landingPageDiagnostics.registerDiagnostics(context);
+    landingPageTreeView.registerTreeView(context);
 }
 
 // This method is called when your extension is deactivated
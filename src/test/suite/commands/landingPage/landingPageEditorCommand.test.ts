@@ -0,0 +1,287 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { LandingPageEditorCommand } from '../../../../commands/landingPage/landingPageEditorCommand';
+import { LandingPageCommand } from '../../../../commands/wizard/landingPageCommand';
+import { TemplateChooserCommand } from '../../../../commands/wizard/templateChooserCommand';
+import { UEMDocument } from '../../../../types';
+import { OrgUtils } from '../../../../utils/orgUtils';
+import { UEMBuilder } from '../../../../utils/uemBuilder';
+import { UEMParser } from '../../../../utils/uemParser';
+import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../../TestHelper';
+
+suite('Landing Page Editor Command Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+
+    const sobjectFields = [
+        { apiName: 'Name', label: 'Name', type: 'string', sortable: true },
+        { apiName: 'Phone', label: 'Phone', type: 'phone', sortable: true },
+        {
+            apiName: 'CreatedDate',
+            label: 'Created Date',
+            type: 'datetime',
+            sortable: true
+        }
+    ];
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    test('No cards when there is no landing page', async () => {
+        const status = await LandingPageEditorCommand.getLandingPageCards();
+        assert.equal(status.error, undefined);
+        assert.deepStrictEqual(status.cards, []);
+    });
+
+    test('Cards of the landing page have their config', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard(
+                'Account',
+                'Accounts',
+                sobjectFields.slice(0, 2),
+                'Phone',
+                false,
+                6,
+                ['Account.edit']
+            )
+            .build();
+        fs.writeFileSync(
+            path.join(dirManager.projectDir, 'landing_page.json'),
+            JSON.stringify(uem),
+            'utf8'
+        );
+
+        const status = await LandingPageEditorCommand.getLandingPageCards();
+
+        assert.equal(status.cards!.length, 2);
+        assert.deepStrictEqual(status.cards![0].config, {
+            type: 'globalActions',
+            label: UEMBuilder.GLOBAL_ACTIONS_LABEL
+        });
+        assert.deepStrictEqual(status.cards![1].config, {
+            type: 'recordList',
+            label: 'Accounts',
+            objectApiName: 'Account',
+            fields: ['Name', 'Phone'],
+            orderByField: 'Phone',
+            isAscending: false,
+            size: 6,
+            swipeActions: ['Account.edit']
+        });
+    });
+
+    test('Card built from config matches the one from UEMBuilder', async () => {
+        sinon.stub(OrgUtils, 'getFieldsForSObject').resolves(sobjectFields);
+
+        const card = await LandingPageEditorCommand.buildCard({
+            type: 'timedList',
+            label: 'Recent Accounts',
+            objectApiName: 'Account',
+            fields: ['Name'],
+            startTimeField: 'CreatedDate',
+            endTimeField: 'CreatedDate',
+            orderByField: 'CreatedDate',
+            isAscending: false,
+            size: 4
+        });
+
+        const expected = UEMParser.findCards(
+            new UEMBuilder()
+                .addTimedListCard(
+                    'Account',
+                    'Recent Accounts',
+                    sobjectFields[2],
+                    sobjectFields[2],
+                    [sobjectFields[0]],
+                    'CreatedDate',
+                    false,
+                    4
+                )
+                .build()
+        )[0];
+        assert.deepStrictEqual(card, expected);
+    });
+
+    test('Card without fields cannot be built', async () => {
+        sinon.stub(OrgUtils, 'getFieldsForSObject').resolves(sobjectFields);
+
+        await assert.rejects(
+            LandingPageEditorCommand.buildCard({
+                type: 'recordList',
+                objectApiName: 'Account',
+                fields: []
+            })
+        );
+    });
+
+    test('Saving cards keeps the rest of the landing page and adds metadata', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+        uem.id = 'custom-id';
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, JSON.stringify(uem), 'utf8');
+
+        await LandingPageEditorCommand.saveCards([]);
+
+        const saved = JSON.parse(fs.readFileSync(landingPagePath, 'utf8'));
+        assert.equal(saved.id, 'custom-id');
+        assert.equal(UEMParser.findCards(saved).length, 0);
+        assert.equal(
+            fs.readFileSync(
+                path.join(
+                    dirManager.projectDir,
+                    'landing_page.resource-meta.xml'
+                ),
+                'utf8'
+            ),
+            LandingPageCommand.LANDING_PAGE_METADATA_XML
+        );
+    });
+
+    test('A new landing page is named after its file', async () => {
+        sinon
+            .stub(TemplateChooserCommand, 'getActiveLandingPageName')
+            .returns('landing_page_sales');
+
+        await LandingPageEditorCommand.saveCards([]);
+
+        const saved = JSON.parse(
+            fs.readFileSync(
+                path.join(dirManager.projectDir, 'landing_page_sales.json'),
+                'utf8'
+            )
+        );
+        assert.equal(saved.apiName, 'landing_page_sales');
+    });
+
+    test('Removing a card keeps the other ones', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', sobjectFields)
+            .build();
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, JSON.stringify(uem), 'utf8');
+
+        await LandingPageEditorCommand.removeCard(0, 0);
+
+        const cards = UEMParser.findCards(
+            JSON.parse(fs.readFileSync(landingPagePath, 'utf8'))
+        );
+        assert.equal(cards.length, 1);
+        assert.equal(cards[0].name, 'Accounts');
+        await assert.rejects(LandingPageEditorCommand.removeCard(0, 1));
+    });
+
+    test('Cards are removed from the container they are in', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+        // a second container, with the card to remove
+        const containers = uem.view.regions.components.components;
+        containers.push(
+            new UEMBuilder()
+                .addRecordListCard('Account', 'Accounts', sobjectFields)
+                .build().view.regions.components.components[0]
+        );
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, JSON.stringify(uem), 'utf8');
+
+        await LandingPageEditorCommand.removeCard(1, 0);
+
+        const saved: UEMDocument = JSON.parse(
+            fs.readFileSync(landingPagePath, 'utf8')
+        );
+        const savedContainers = saved.view.regions.components.components;
+        assert.deepStrictEqual(
+            savedContainers.map(
+                (container) => container.regions.components.components.length
+            ),
+            [1, 0]
+        );
+        assert.equal(
+            savedContainers[0].regions.components.components[0].name,
+            'global_actions'
+        );
+    });
+
+    test('Cards are saved back to the container they were loaded from', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+        const containers = uem.view.regions.components.components;
+        containers.push(
+            new UEMBuilder()
+                .addRecordListCard('Account', 'Accounts', sobjectFields)
+                .build().view.regions.components.components[0]
+        );
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, JSON.stringify(uem), 'utf8');
+
+        const status = await LandingPageEditorCommand.getLandingPageCards();
+        assert.deepStrictEqual(
+            status.cards!.map((editorCard) => editorCard.containerIndex),
+            [0, 1]
+        );
+        await LandingPageEditorCommand.saveCards(status.cards!);
+        await LandingPageEditorCommand.saveCards(
+            (await LandingPageEditorCommand.getLandingPageCards()).cards!
+        );
+
+        const saved: UEMDocument = JSON.parse(
+            fs.readFileSync(landingPagePath, 'utf8')
+        );
+        assert.deepStrictEqual(saved, uem);
+    });
+
+    test('New cards are saved to the first container', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, JSON.stringify(uem), 'utf8');
+        const card = UEMParser.findCards(
+            new UEMBuilder()
+                .addRecordListCard('Account', 'Accounts', sobjectFields)
+                .build()
+        )[0];
+
+        const status = await LandingPageEditorCommand.getLandingPageCards();
+        await LandingPageEditorCommand.saveCards([...status.cards!, { card }]);
+
+        const saved: UEMDocument = JSON.parse(
+            fs.readFileSync(landingPagePath, 'utf8')
+        );
+        assert.deepStrictEqual(
+            UEMParser.findCards(saved).map((savedCard) => savedCard.name),
+            ['global_actions', 'Accounts']
+        );
+    });
+});
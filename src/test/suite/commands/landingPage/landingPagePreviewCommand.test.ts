@@ -0,0 +1,101 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { LandingPagePreviewCommand } from '../../../../commands/landingPage/landingPagePreviewCommand';
+import { OrgUtils } from '../../../../utils/orgUtils';
+import { UEMBuilder } from '../../../../utils/uemBuilder';
+import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../../TestHelper';
+
+suite('Landing Page Preview Command Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+
+    const accountFields = [
+        { apiName: 'Name', label: 'Name', type: 'string' },
+        { apiName: 'Phone', label: 'Phone', type: 'phone' }
+    ];
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', accountFields)
+            .build();
+        fs.writeFileSync(
+            path.join(dirManager.projectDir, 'landing_page.json'),
+            JSON.stringify(uem),
+            'utf8'
+        );
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    test('Preview with placeholder data', async () => {
+        const preview = await LandingPagePreviewCommand.getPreview(false);
+
+        assert.equal(preview.error, undefined);
+        assert.equal(preview.backgroundColor, '#F3F2f2');
+        assert.equal(preview.cards!.length, 2);
+        assert.equal(preview.cards![0].type, 'globalActions');
+        const listCard = preview.cards![1];
+        assert.equal(listCard.type, 'list');
+        assert.equal(listCard.label, 'Accounts');
+        assert.equal(listCard.rows.length, 3);
+        assert.deepStrictEqual(listCard.rows[0], {
+            mainField: 'Name 1',
+            subField1: 'Phone 1',
+            subField2: undefined
+        });
+    });
+
+    test('Preview with sample records of the org', async () => {
+        const getSampleRecordsStub = sinon
+            .stub(OrgUtils, 'getSampleRecords')
+            .resolves([JSON.parse('{ "Name": "Acme", "Phone": null }')]);
+
+        const preview = await LandingPagePreviewCommand.getPreview(true);
+
+        assert.deepStrictEqual(getSampleRecordsStub.args[0], [
+            'Account',
+            ['Name', 'Phone'],
+            'Name ASC',
+            3
+        ]);
+        assert.deepStrictEqual(preview.cards![1].rows, [
+            { mainField: 'Acme', subField1: '', subField2: undefined }
+        ]);
+    });
+
+    test('Placeholders are kept when the org cannot be queried', async () => {
+        sinon.stub(OrgUtils, 'getSampleRecords').rejects(new Error('no org'));
+
+        const preview = await LandingPagePreviewCommand.getPreview(true);
+
+        const listCard = preview.cards![1];
+        assert.ok(listCard.error);
+        assert.equal(listCard.rows.length, 3);
+    });
+
+    test('Relationship fields are read from the nested records', async () => {
+        const row = LandingPagePreviewCommand.getRecordRow(
+            { mainField: 'Owner.Name' },
+            JSON.parse('{ "Owner": { "Name": "Jane" } }')
+        );
+        assert.equal(row.mainField, 'Jane');
+    });
+});
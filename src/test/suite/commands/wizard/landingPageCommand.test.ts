@@ -15,6 +15,11 @@ import { UIUtils } from '../../../../utils/uiUtils';
 import { UEMBuilder } from '../../../../utils/uemBuilder';
 import { QuickPickItem } from 'vscode';
 import { LandingPageCommand } from '../../../../commands/wizard/landingPageCommand';
+import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
+import { TemplateChooserCommand } from '../../../../commands/wizard/templateChooserCommand';
+import { TempProjectDirManager } from '../../../TestHelper';
+import * as fs from 'fs';
+import * as path from 'path';
 
 suite('Landing Page Command Test Suite', () => {
     let originalShowQuickPickFunction: (
@@ -43,6 +48,7 @@ suite('Landing Page Command Test Suite', () => {
         });
 
         const json = await LandingPageCommand.buildLandingPage();
+        assert.ok(json);
 
         const cards =
             json.view.regions.components.components[0].regions.components
@@ -63,6 +69,7 @@ suite('Landing Page Command Test Suite', () => {
             .returns({ label: LandingPageCommand.FINISHED_LABEL });
 
         const json = await LandingPageCommand.buildLandingPage();
+        assert.ok(json);
 
         const globalCard =
             json.view.regions.components.components[0].regions.components
@@ -70,6 +77,74 @@ suite('Landing Page Command Test Suite', () => {
         assert.equal(globalCard.name, 'global_actions');
     });
 
+    test('Dismissing a prompt of a card keeps the cards already added', async () => {
+        const showQuickPickStub: SinonStub = sinon.stub(
+            vscode.window,
+            'showQuickPick'
+        );
+        showQuickPickStub
+            .onCall(0)
+            .resolves({ label: LandingPageCommand.GLOBAL_ACTIONS_CARD_LABEL });
+        showQuickPickStub
+            .onCall(1)
+            .resolves({ label: LandingPageCommand.RECORD_LIST_CARD_LABEL });
+        showQuickPickStub
+            .onCall(2)
+            .resolves({ label: LandingPageCommand.FINISHED_LABEL });
+        sinon.stub(OrgUtils, 'getSobjects').resolves([
+            {
+                apiName: 'Account',
+                label: 'Account',
+                labelPlural: 'Accounts'
+            }
+        ]);
+        sinon
+            .stub(OrgUtils, 'getFieldsForSObject')
+            .resolves([{ apiName: 'Name', label: 'Name', type: 'string' }]);
+        // the sObject is selected, then the primary field prompt is dismissed
+        UIUtils.showQuickPick = sinon
+            .stub()
+            .onCall(0)
+            .resolves({ label: 'Accounts', detail: 'Account' })
+            .onCall(1)
+            .rejects('Hiding');
+
+        const json = await LandingPageCommand.buildLandingPage();
+
+        assert.ok(json);
+        const cards =
+            json.view.regions.components.components[0].regions.components
+                .components;
+        assert.deepStrictEqual(
+            cards.map((card) => card.name),
+            ['global_actions']
+        );
+    });
+
+    test('Dismissing the landing page asks to keep the cards added', async () => {
+        const showQuickPickStub: SinonStub = sinon.stub(
+            vscode.window,
+            'showQuickPick'
+        );
+        showQuickPickStub
+            .onCall(0)
+            .resolves({ label: LandingPageCommand.GLOBAL_ACTIONS_CARD_LABEL });
+        showQuickPickStub.onCall(1).resolves(undefined);
+        const confirmStub = sinon
+            .stub(LandingPageCommand, 'confirmKeepCards')
+            .resolves(true);
+
+        const json = await LandingPageCommand.buildLandingPage();
+
+        sinon.assert.calledOnceWithExactly(confirmStub, 1);
+        assert.ok(json);
+        assert.equal(
+            json.view.regions.components.components[0].regions.components
+                .components.length,
+            1
+        );
+    });
+
     test('Adds record list card', async () => {
         const sobject: SObject = {
             apiName: 'SomeApiName',
@@ -102,6 +177,14 @@ suite('Landing Page Command Test Suite', () => {
                     return Promise.resolve({ label: 'State', detail: 'State' });
                 case 3:
                     return Promise.resolve({ label: 'Zip', detail: 'Zip' });
+                case 4: // order by
+                    return Promise.resolve({ label: 'State', detail: 'State' });
+                case 5: // direction
+                    return Promise.resolve({
+                        label: LandingPageCommand.DESCENDING_LABEL
+                    });
+                case 6: // max items
+                    return Promise.resolve({ label: '8' });
             }
 
             assert.fail('Should never reach here.');
@@ -133,6 +216,13 @@ suite('Landing Page Command Test Suite', () => {
         ];
         orgUtilsStubFields.returns(Promise.resolve(sobjectFields));
 
+        // Only the quick actions of the selected sObject are offered as swipe actions
+        sinon
+            .stub(WorkspaceUtils, 'getQuickActionNames')
+            .returns(['Other.view', 'SomeApiName.edit']);
+        const showQuickPickStub = sinon.stub(vscode.window, 'showQuickPick');
+        showQuickPickStub.resolves([{ label: 'SomeApiName.edit' }] as any);
+
         let uem = new UEMBuilder();
         const fakeAddRecordListCard = sinon.fake();
         uem.addRecordListCard = fakeAddRecordListCard;
@@ -145,5 +235,361 @@ suite('Landing Page Command Test Suite', () => {
         assert.equal(apiNameArg, sobject.apiName);
         assert.equal(labelPluralArg, sobject.labelPlural);
         assert.deepStrictEqual(selectedFieldsArg.sort(), sobjectFields.sort());
+        assert.equal(fakeAddRecordListCard.args[0][3], 'State'); // order by
+        assert.equal(fakeAddRecordListCard.args[0][4], false); // ascending
+        assert.equal(fakeAddRecordListCard.args[0][5], 8); // size
+        assert.deepStrictEqual(fakeAddRecordListCard.args[0][6], [
+            'SomeApiName.edit'
+        ]);
+        const offeredItems = showQuickPickStub.args[0][0] as QuickPickItem[];
+        assert.deepStrictEqual(
+            offeredItems.map((item) => item.label),
+            ['SomeApiName.edit']
+        );
+    });
+
+    test('Order by is restricted to sortable fields', async () => {
+        const fields = [
+            { apiName: 'Name', label: 'Name', type: 'string', sortable: true },
+            {
+                apiName: 'Description',
+                label: 'Description',
+                type: 'textarea',
+                sortable: false
+            },
+            { apiName: 'Custom__c', label: 'Custom', type: 'string' }
+        ];
+
+        const sortableFields = LandingPageCommand.getSortableFields(fields);
+        assert.deepStrictEqual(
+            sortableFields.map((field) => field.apiName),
+            ['Name', 'Custom__c']
+        );
+    });
+
+    test('Adds timed list card', async () => {
+        const sobject: SObject = {
+            apiName: 'ServiceAppointment',
+            label: 'Service Appointment',
+            labelPlural: 'Service Appointments'
+        };
+
+        let callCount = 0;
+        const mockUIUtilsShowQuickPick = async function (
+            placeholderMessage: string,
+            progressMessage: string,
+            callback: () => Promise<QuickPickItem[]>
+        ): Promise<QuickPickItem> {
+            await callback();
+
+            switch (callCount++) {
+                case 0:
+                    return Promise.resolve({
+                        label: sobject.labelPlural,
+                        detail: sobject.apiName
+                    });
+                case 1: // start field
+                    return Promise.resolve({
+                        label: 'Start',
+                        detail: 'SchedStartTime'
+                    });
+                case 2: // end field
+                    return Promise.resolve({
+                        label: 'End',
+                        detail: 'SchedEndTime'
+                    });
+                case 3: // primary field
+                    return Promise.resolve({
+                        label: 'Subject',
+                        detail: 'Subject'
+                    });
+                case 4: // secondary field
+                    return Promise.resolve({
+                        label: LandingPageCommand.FINISHED_LABEL
+                    });
+                case 5: // order by
+                    return Promise.resolve({
+                        label: 'End',
+                        detail: 'SchedEndTime'
+                    });
+                case 6: // direction
+                    return Promise.resolve({
+                        label: LandingPageCommand.DESCENDING_LABEL
+                    });
+                case 7: // max items
+                    return Promise.resolve({ label: '7' });
+            }
+
+            assert.fail('Should never reach here.');
+        };
+        UIUtils.showQuickPick = mockUIUtilsShowQuickPick;
+
+        sinon.stub(OrgUtils, 'getSobjects').resolves([sobject]);
+        const sobjectFields = [
+            {
+                apiName: 'SchedEndTime',
+                label: 'End',
+                type: 'datetime'
+            },
+            {
+                apiName: 'SchedStartTime',
+                label: 'Start',
+                type: 'datetime'
+            },
+            {
+                apiName: 'Subject',
+                label: 'Subject',
+                type: 'string'
+            }
+        ];
+        sinon.stub(OrgUtils, 'getFieldsForSObject').resolves(sobjectFields);
+
+        let uem = new UEMBuilder();
+        const fakeAddTimedListCard = sinon.fake();
+        uem.addTimedListCard = fakeAddTimedListCard;
+        uem = await LandingPageCommand.configureTimedListCard(uem);
+
+        const args = fakeAddTimedListCard.args[0];
+        assert.equal(args[0], sobject.apiName);
+        assert.equal(args[1], sobject.labelPlural);
+        assert.equal(args[2].apiName, 'SchedStartTime');
+        assert.equal(args[3].apiName, 'SchedEndTime');
+        assert.deepStrictEqual(args[4], [sobjectFields[2]]);
+        assert.equal(args[5], 'SchedEndTime');
+        assert.equal(args[6], false);
+        assert.equal(args[7], 7);
+    });
+
+    test('Timed list card is not added for sObject without date fields', async () => {
+        const sobject: SObject = {
+            apiName: 'SomeApiName',
+            label: 'SomeObject',
+            labelPlural: 'SomeObjects'
+        };
+        UIUtils.showQuickPick = async () => {
+            return Promise.resolve({
+                label: sobject.labelPlural,
+                detail: sobject.apiName
+            });
+        };
+        sinon.stub(OrgUtils, 'getSobjects').resolves([sobject]);
+        sinon
+            .stub(OrgUtils, 'getFieldsForSObject')
+            .resolves([{ apiName: 'Name', label: 'Name', type: 'string' }]);
+        const showWarningMessageStub = sinon
+            .stub(vscode.window, 'showWarningMessage')
+            .resolves(undefined);
+
+        let uem = new UEMBuilder();
+        const fakeAddTimedListCard = sinon.fake();
+        uem.addTimedListCard = fakeAddTimedListCard;
+        uem = await LandingPageCommand.configureTimedListCard(uem);
+
+        assert.ok(showWarningMessageStub.calledOnce);
+        assert.ok(fakeAddTimedListCard.notCalled);
+    });
+
+    test('Landing page and metadata are saved to static resources', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        const askUserToOverwriteStub = sinon.stub(
+            TemplateChooserCommand,
+            'askUserToOverwriteLandingPage'
+        );
+        try {
+            const uem = new UEMBuilder().addGlobalActionCard().build();
+            const saved = await LandingPageCommand.saveLandingPage(uem);
+
+            assert.ok(saved);
+            assert.ok(askUserToOverwriteStub.notCalled);
+            const json = JSON.parse(
+                fs.readFileSync(
+                    path.join(dirManager.projectDir, 'landing_page.json'),
+                    'utf8'
+                )
+            );
+            assert.deepStrictEqual(json, uem);
+            const meta = fs.readFileSync(
+                path.join(
+                    dirManager.projectDir,
+                    'landing_page.resource-meta.xml'
+                ),
+                'utf8'
+            );
+            assert.equal(meta, LandingPageCommand.LANDING_PAGE_METADATA_XML);
+        } finally {
+            await dirManager.removeDir();
+        }
+    });
+
+    test('Existing landing page is kept if user does not confirm overwrite', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        const askUserToOverwriteStub = sinon
+            .stub(TemplateChooserCommand, 'askUserToOverwriteLandingPage')
+            .resolves(vscode.l10n.t('No'));
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(landingPagePath, 'original', 'utf8');
+        try {
+            const uem = new UEMBuilder().build();
+            const saved = await LandingPageCommand.saveLandingPage(uem);
+
+            assert.equal(saved, false);
+            assert.ok(askUserToOverwriteStub.calledOnce);
+            assert.equal(fs.readFileSync(landingPagePath, 'utf8'), 'original');
+        } finally {
+            await dirManager.removeDir();
+        }
+    });
+
+    test('Cards are added to the existing landing page', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        const askUserToOverwriteStub = sinon.stub(
+            TemplateChooserCommand,
+            'askUserToOverwriteLandingPage'
+        );
+        const showQuickPickStub: SinonStub = sinon.stub(
+            vscode.window,
+            'showQuickPick'
+        );
+        showQuickPickStub
+            .onCall(0)
+            .resolves(LandingPageCommand.ADD_TO_EXISTING_LABEL);
+        showQuickPickStub.onCall(1).resolves({
+            label: LandingPageCommand.GLOBAL_ACTIONS_CARD_LABEL
+        });
+        showQuickPickStub.onCall(2).resolves({
+            label: LandingPageCommand.FINISHED_LABEL
+        });
+        const landingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        const existing = new UEMBuilder().addGlobalActionCard().build();
+        existing.id = 'custom-id';
+        fs.writeFileSync(landingPagePath, JSON.stringify(existing), 'utf8');
+        try {
+            const saved = await LandingPageCommand.buildAndSaveLandingPage();
+
+            assert.ok(saved);
+            assert.ok(askUserToOverwriteStub.notCalled);
+            const json = JSON.parse(fs.readFileSync(landingPagePath, 'utf8'));
+            assert.equal(json.id, 'custom-id');
+            assert.equal(
+                json.view.regions.components.components[0].regions.components
+                    .components.length,
+                2
+            );
+        } finally {
+            await dirManager.removeDir();
+        }
+    });
+
+    test('Cards are saved back to the landing page they were added to', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        sinon
+            .stub(TemplateChooserCommand, 'getActiveLandingPageName')
+            .returns('landing_page_sales');
+        const askUserToOverwriteStub = sinon.stub(
+            TemplateChooserCommand,
+            'askUserToOverwriteLandingPage'
+        );
+        const showQuickPickStub: SinonStub = sinon.stub(
+            vscode.window,
+            'showQuickPick'
+        );
+        showQuickPickStub
+            .onCall(0)
+            .resolves(LandingPageCommand.ADD_TO_EXISTING_LABEL);
+        showQuickPickStub.onCall(1).resolves({
+            label: LandingPageCommand.FINISHED_LABEL
+        });
+        // the loaded landing page has the apiName of another landing page
+        const otherLandingPagePath = path.join(
+            dirManager.projectDir,
+            'landing_page.json'
+        );
+        fs.writeFileSync(otherLandingPagePath, 'other', 'utf8');
+        fs.writeFileSync(
+            path.join(dirManager.projectDir, 'landing_page_sales.json'),
+            JSON.stringify(new UEMBuilder().build()),
+            'utf8'
+        );
+        try {
+            const saved = await LandingPageCommand.buildAndSaveLandingPage();
+
+            assert.ok(saved);
+            assert.ok(askUserToOverwriteStub.notCalled);
+            assert.equal(
+                fs.readFileSync(otherLandingPagePath, 'utf8'),
+                'other'
+            );
+        } finally {
+            await dirManager.removeDir();
+        }
+    });
+
+    test('Landing page is saved under its apiName', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getStaticResourcesDir')
+            .resolves(dirManager.projectDir);
+        try {
+            const uem = new UEMBuilder({
+                apiName: 'landing_page_sales'
+            }).build();
+            const saved = await LandingPageCommand.saveLandingPage(uem);
+
+            assert.ok(saved);
+            assert.ok(
+                fs.existsSync(
+                    path.join(dirManager.projectDir, 'landing_page_sales.json')
+                )
+            );
+            assert.ok(
+                fs.existsSync(
+                    path.join(
+                        dirManager.projectDir,
+                        'landing_page_sales.resource-meta.xml'
+                    )
+                )
+            );
+        } finally {
+            await dirManager.removeDir();
+        }
+    });
+
+    test('Landing page options are derived from the persona', async () => {
+        const showInputBoxStub = sinon.stub(vscode.window, 'showInputBox');
+        showInputBoxStub.onCall(0).resolves('Field Sales');
+        showInputBoxStub.onCall(1).resolves('mcf__native');
+        showInputBoxStub.onCall(2).resolves('#FFFFFF');
+
+        const options = await LandingPageCommand.selectLandingPageOptions();
+
+        assert.deepStrictEqual(options, {
+            apiName: 'landing_page_field_sales',
+            target: 'mcf__native',
+            backgroundColor: '#FFFFFF'
+        });
+        const validateInput = showInputBoxStub.args[0][0]!.validateInput!;
+        assert.ok(validateInput('healthcare'));
+        assert.equal(validateInput('Service'), undefined);
+        const targetOptions = showInputBoxStub.args[1][0]!;
+        assert.equal(targetOptions.value, UEMBuilder.DEFAULT_TARGET);
+        assert.ok(targetOptions.validateInput!(''));
     });
 });
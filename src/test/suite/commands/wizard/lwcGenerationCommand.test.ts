@@ -16,7 +16,7 @@ import {
 } from '../../../../commands/wizard/lwcGenerationCommand';
 import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
 import { TempProjectDirManager } from '../../../TestHelper';
-import { Uri } from 'vscode';
+import { Uri, window } from 'vscode';
 import { CompactLayoutField, OrgUtils } from '../../../../utils/orgUtils';
 import { CodeBuilder } from '../../../../utils/codeBuilder';
 import { create } from 'domain';
@@ -165,6 +165,35 @@ suite('LWC Generation Command Test Suite', () => {
         }
     });
 
+    test('Should return the sObjects of all the landing pages', async () => {
+        const dirManager = await TempProjectDirManager.createTempProjectDir();
+        const getWorkspaceDirStub = sandbox.stub(
+            WorkspaceUtils,
+            'getStaticResourcesDir'
+        );
+        try {
+            getWorkspaceDirStub.returns(Promise.resolve(dirManager.projectDir));
+            fs.writeFileSync(
+                path.join(dirManager.projectDir, 'landing_page_sales.json'),
+                '{ "definition": "mcf/list", "properties": { "objectApiName": "Opportunity" } }',
+                'utf8'
+            );
+            fs.writeFileSync(
+                path.join(dirManager.projectDir, 'landing_page_service.json'),
+                '{ "definition": "mcf/list", "properties": { "objectApiName": "Case" }, "nested": { "definition": "mcf/list", "properties": { "objectApiName": "Opportunity"} } }',
+                'utf8'
+            );
+
+            const status =
+                await LwcGenerationCommand.getSObjectsFromLandingPage();
+
+            assert.deepStrictEqual(status.sobjects, ['Opportunity', 'Case']);
+        } finally {
+            getWorkspaceDirStub.restore();
+            await dirManager.removeDir();
+        }
+    });
+
     test('Should generate view, create, and edit quick actions', async () => {
         const extensionUri = Uri.file('whateva');
         const quickActionStatus: SObjectQuickActionStatus = {
@@ -193,6 +222,11 @@ suite('LWC Generation Command Test Suite', () => {
         const compactLayoutFieldsStub = sandbox
             .stub(OrgUtils, 'getCompactLayoutFieldsForSObject')
             .resolves(compactLayoutFields);
+        sandbox
+            .stub(OrgUtils, 'getFieldsForSObject')
+            .resolves([
+                { apiName: 'field1', label: 'Field 1', type: 'string' }
+            ]);
         const quickActionStatusStub = sandbox.stub(
             LwcGenerationCommand,
             'checkForExistingQuickActions'
@@ -211,4 +245,96 @@ suite('LWC Generation Command Test Suite', () => {
         sandbox.assert.calledOnce(codeBuilderStub.generateEdit);
         sandbox.assert.calledOnce(codeBuilderStub.generateView);
     });
+
+    test('Should preview the missing quick actions without writing them', async () => {
+        const extensionUri = Uri.file('whateva');
+        const quickActionStatus: SObjectQuickActionStatus = {
+            sobjects: {
+                account: {
+                    view: true,
+                    edit: false,
+                    create: true
+                },
+                contact: {
+                    view: true,
+                    edit: true,
+                    create: true
+                }
+            }
+        };
+        const compactLayoutFields: CompactLayoutField[] = [
+            {
+                editableForNew: true,
+                editableForUpdate: true,
+                label: 'label',
+                layoutComponents: [
+                    {
+                        value: 'field1'
+                    }
+                ]
+            }
+        ];
+        sandbox
+            .stub(OrgUtils, 'getCompactLayoutFieldsForSObject')
+            .resolves(compactLayoutFields);
+        const getFieldsStub = sandbox
+            .stub(OrgUtils, 'getFieldsForSObject')
+            .resolves([
+                { apiName: 'field1', label: 'Field 1', type: 'string' }
+            ]);
+        sandbox.stub(fs, 'readFileSync').returns('content');
+        const writeFileStub = sandbox.stub(fs, 'writeFileSync');
+
+        const generatedFiles =
+            await LwcGenerationCommand.previewMissingLwcsAndQuickActions(
+                extensionUri,
+                quickActionStatus
+            );
+
+        assert.deepStrictEqual(Object.keys(generatedFiles), ['account']);
+        assert.equal(generatedFiles.account.length, 5);
+        assert.equal(
+            generatedFiles.account[4].filePath,
+            path.normalize(
+                'force-app/main/default/quickActions/account.edit.quickAction-meta.xml'
+            )
+        );
+        sandbox.assert.calledOnceWithExactly(getFieldsStub, 'account');
+        sandbox.assert.notCalled(writeFileStub);
+    });
+
+    test('Should skip the sObjects that cannot be previewed', async () => {
+        const quickActionStatus: SObjectQuickActionStatus = {
+            sobjects: {
+                account: { view: false, edit: true, create: true },
+                contact: { view: false, edit: true, create: true }
+            }
+        };
+        const getCompactLayoutStub = sandbox.stub(
+            OrgUtils,
+            'getCompactLayoutFieldsForSObject'
+        );
+        getCompactLayoutStub
+            .withArgs('account')
+            .rejects(new Error('no layout'));
+        getCompactLayoutStub.withArgs('contact').resolves([]);
+        sandbox.stub(OrgUtils, 'getFieldsForSObject').resolves([]);
+        sandbox.stub(fs, 'readFileSync').returns('content');
+        const showWarningMessageStub = sandbox.stub(
+            window,
+            'showWarningMessage'
+        );
+
+        const generatedFiles =
+            await LwcGenerationCommand.previewMissingLwcsAndQuickActions(
+                Uri.file('whateva'),
+                quickActionStatus
+            );
+
+        assert.deepStrictEqual(Object.keys(generatedFiles), ['contact']);
+        sandbox.assert.calledOnce(showWarningMessageStub);
+        assert.ok(
+            (showWarningMessageStub.args[0][0] as string).includes('account')
+        );
+    });
 });
@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { window } from 'vscode';
+import {
+    LwcGenerationPreview,
+    SObjectGeneratedFiles
+} from '../../../../commands/wizard/lwcGenerationPreview';
+import { CodeBuilder } from '../../../../utils/codeBuilder';
+
+suite('LWC Generation Preview Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    const generatedFiles: SObjectGeneratedFiles = {
+        account: [
+            {
+                filePath: path.join('lwc', 'viewAccountRecord.js'),
+                content: 'account js'
+            },
+            {
+                filePath: path.join('quickActions', 'Account.view.xml'),
+                content: 'account qa'
+            }
+        ],
+        contact: [
+            {
+                filePath: path.join('lwc', 'viewContactRecord.js'),
+                content: 'contact js'
+            }
+        ]
+    };
+
+    beforeEach(function () {
+        sandbox = sinon.createSandbox();
+    });
+
+    afterEach(function () {
+        sandbox.restore();
+    });
+
+    test('Preview content lists each file under its path', () => {
+        assert.equal(
+            LwcGenerationPreview.getPreviewContent(generatedFiles.account),
+            '==> lwc/viewAccountRecord.js <==\naccount js\n==> quickActions/Account.view.xml <==\naccount qa'
+        );
+    });
+
+    test('Accept all selects every sObject', async () => {
+        sandbox
+            .stub(window, 'showQuickPick')
+            .resolves(LwcGenerationPreview.ACCEPT_ALL_LABEL as any);
+
+        const sobjects =
+            await LwcGenerationPreview.selectAcceptedSObjects(generatedFiles);
+        assert.deepStrictEqual(sobjects, ['account', 'contact']);
+    });
+
+    test('Accept per object selects the picked sObjects', async () => {
+        const showQuickPickStub = sandbox.stub(window, 'showQuickPick');
+        showQuickPickStub
+            .onCall(0)
+            .resolves(LwcGenerationPreview.ACCEPT_PER_OBJECT_LABEL as any);
+        showQuickPickStub.onCall(1).callsFake(async (items: any) => {
+            const sobjectItems = await items;
+            assert.equal(sobjectItems.length, 2);
+            return [sobjectItems[1]] as any;
+        });
+
+        const sobjects =
+            await LwcGenerationPreview.selectAcceptedSObjects(generatedFiles);
+        assert.deepStrictEqual(sobjects, ['contact']);
+    });
+
+    test('Cancel selects nothing', async () => {
+        sandbox
+            .stub(window, 'showQuickPick')
+            .resolves(LwcGenerationPreview.CANCEL_LABEL as any);
+
+        assert.equal(
+            await LwcGenerationPreview.selectAcceptedSObjects(generatedFiles),
+            undefined
+        );
+    });
+
+    test('Only the files of the accepted sObjects are written', () => {
+        const writeStub = sandbox.stub(CodeBuilder, 'writeGeneratedFile');
+
+        LwcGenerationPreview.writeFiles(generatedFiles, ['account']);
+        assert.equal(writeStub.callCount, 2);
+        assert.deepStrictEqual(
+            writeStub.getCalls().map((call) => call.args[0]),
+            generatedFiles.account
+        );
+    });
+
+    test('Preview contents are released', () => {
+        const provider = LwcGenerationPreview.CONTENT_PROVIDER;
+        const token = undefined as any;
+        const previewUri = LwcGenerationPreview.getPreviewUri(
+            'lwc/viewAccountRecord.js',
+            'account js'
+        );
+        assert.equal(
+            provider.provideTextDocumentContent(previewUri, token),
+            'account js'
+        );
+
+        LwcGenerationPreview.releaseContents([previewUri]);
+        assert.equal(
+            provider.provideTextDocumentContent(previewUri, token),
+            ''
+        );
+    });
+
+    test('Generated files are not previewed by default', () => {
+        assert.equal(LwcGenerationPreview.isEnabled(), false);
+    });
+});
@@ -0,0 +1,192 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { commands, Uri, window, workspace } from 'vscode';
+import { RegenerateQuickActionsCommand } from '../../../../commands/wizard/regenerateQuickActionsCommand';
+import { LwcGenerationPreview } from '../../../../commands/wizard/lwcGenerationPreview';
+import { CodeBuilder } from '../../../../utils/codeBuilder';
+import { GeneratedFileMarker } from '../../../../utils/generatedFileMarker';
+import { OrgUtils } from '../../../../utils/orgUtils';
+import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../../TestHelper';
+
+suite('Regenerate Quick Actions Command Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+    let projectDirManager: TempProjectDirManager;
+    let extensionDirManager: TempProjectDirManager;
+    let origCwd: string;
+
+    beforeEach(async function () {
+        sandbox = sinon.createSandbox();
+        projectDirManager = await TempProjectDirManager.createTempProjectDir();
+        extensionDirManager =
+            await TempProjectDirManager.createTempProjectDir();
+        origCwd = process.cwd();
+        // the generated files are written relative to the project
+        process.chdir(projectDirManager.projectDir);
+
+        sandbox.stub(OrgUtils, 'getCompactLayoutFieldsForSObject').resolves([]);
+        sandbox.stub(OrgUtils, 'getFieldsForSObject').resolves([]);
+        sandbox.stub(LwcGenerationPreview, 'isEnabled').returns(false);
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirManager.projectDir);
+    });
+
+    afterEach(async function () {
+        sandbox.restore();
+        process.chdir(origCwd);
+        await projectDirManager.removeDir();
+        await extensionDirManager.removeDir();
+    });
+
+    function writeTemplates(version: string) {
+        const templatesPath = path.join(
+            extensionDirManager.projectDir,
+            WorkspaceUtils.LWC_TEMPLATE_PATH
+        );
+        for (const template of ['viewRecord', 'editRecord', 'createRecord']) {
+            fs.mkdirSync(path.join(templatesPath, template), {
+                recursive: true
+            });
+            for (const extension of CodeBuilder.TEMPLATE_FILE_EXTENSIONS) {
+                fs.writeFileSync(
+                    path.join(
+                        templatesPath,
+                        template,
+                        `${template}.${extension}`
+                    ),
+                    `${version} {% objectApiName %}\n`
+                );
+            }
+        }
+        fs.writeFileSync(
+            path.join(templatesPath, CodeBuilder.QUICK_ACTION_TEMPLATE_NAME),
+            `${version} {% lwcName %}\n`
+        );
+    }
+
+    test('Regenerates the untouched files and asks about the edited ones', async () => {
+        const extensionUri = Uri.file(extensionDirManager.projectDir);
+        const showQuickPickStub = sandbox
+            .stub(window, 'showQuickPick')
+            .resolves(RegenerateQuickActionsCommand.KEEP_LABEL as any);
+        const viewJsPath = path.join(
+            WorkspaceUtils.LWC_PATH,
+            'viewAccountRecord',
+            'viewAccountRecord.js'
+        );
+
+        writeTemplates('v1');
+        let regeneration =
+            await RegenerateQuickActionsCommand.regenerateForSObject(
+                extensionUri,
+                'Account'
+            );
+        assert.equal(regeneration.written.length, 15);
+        assert.equal(GeneratedFileMarker.getState(viewJsPath), 'untouched');
+        assert.equal(
+            fs.readFileSync(
+                GeneratedFileMarker.getBaseFilePath(viewJsPath),
+                'utf8'
+            ),
+            fs.readFileSync(viewJsPath, 'utf8')
+        );
+
+        // nothing to regenerate
+        regeneration = await RegenerateQuickActionsCommand.regenerateForSObject(
+            extensionUri,
+            'Account'
+        );
+        assert.deepStrictEqual(regeneration, {
+            written: [],
+            merged: [],
+            kept: []
+        });
+
+        fs.appendFileSync(viewJsPath, '// edited\n');
+        writeTemplates('v2');
+        regeneration = await RegenerateQuickActionsCommand.regenerateForSObject(
+            extensionUri,
+            'Account'
+        );
+        assert.equal(regeneration.written.length, 14);
+        assert.deepStrictEqual(regeneration.kept, [viewJsPath]);
+        sandbox.assert.calledOnce(showQuickPickStub);
+        assert.ok(fs.readFileSync(viewJsPath, 'utf8').includes('v1 Account'));
+        assert.ok(
+            fs
+                .readFileSync(
+                    path.join(
+                        WorkspaceUtils.LWC_PATH,
+                        'editAccountRecord',
+                        'editAccountRecord.js'
+                    ),
+                    'utf8'
+                )
+                .includes('v2 Account')
+        );
+    });
+
+    test('The base is updated once the merge is saved, not when only diffed', async () => {
+        const extensionUri = Uri.file(extensionDirManager.projectDir);
+        const viewJsPath = path.join(
+            WorkspaceUtils.LWC_PATH,
+            'viewAccountRecord',
+            'viewAccountRecord.js'
+        );
+        const basePath = GeneratedFileMarker.getBaseFilePath(viewJsPath);
+        writeTemplates('v1');
+        await RegenerateQuickActionsCommand.regenerateForSObject(
+            extensionUri,
+            'Account'
+        );
+        const v1Base = fs.readFileSync(basePath, 'utf8');
+        fs.appendFileSync(viewJsPath, '// edited\n');
+        writeTemplates('v2');
+        sandbox
+            .stub(window, 'showQuickPick')
+            .resolves(RegenerateQuickActionsCommand.MERGE_LABEL as any);
+        const executeCommandStub = sandbox.stub(commands, 'executeCommand');
+        const onDidSaveStub = sandbox
+            .stub(workspace, 'onDidSaveTextDocument')
+            .returns({ dispose: () => {} });
+        sandbox
+            .stub(workspace, 'onDidCloseTextDocument')
+            .returns({ dispose: () => {} });
+
+        // the merge editor cannot be opened, the file is only diffed
+        executeCommandStub.withArgs('_open.mergeEditor').rejects();
+        let regeneration =
+            await RegenerateQuickActionsCommand.regenerateForSObject(
+                extensionUri,
+                'Account'
+            );
+        assert.deepStrictEqual(regeneration.merged, []);
+        assert.deepStrictEqual(regeneration.kept, [viewJsPath]);
+        sandbox.assert.calledWith(executeCommandStub, 'vscode.diff');
+        assert.equal(fs.readFileSync(basePath, 'utf8'), v1Base);
+
+        executeCommandStub.withArgs('_open.mergeEditor').resolves();
+        regeneration = await RegenerateQuickActionsCommand.regenerateForSObject(
+            extensionUri,
+            'Account'
+        );
+        assert.deepStrictEqual(regeneration.merged, [viewJsPath]);
+        assert.equal(fs.readFileSync(basePath, 'utf8'), v1Base);
+
+        // the user saves the merged file
+        const onDidSave = onDidSaveStub.lastCall.args[0];
+        onDidSave({ uri: Uri.file(path.resolve(viewJsPath)) } as any);
+        assert.ok(fs.readFileSync(basePath, 'utf8').includes('v2 Account'));
+    });
+});
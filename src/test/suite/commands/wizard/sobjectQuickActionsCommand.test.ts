@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import { afterEach, beforeEach } from 'mocha';
+import { window } from 'vscode';
+import { SObjectQuickActionsCommand } from '../../../../commands/wizard/sobjectQuickActionsCommand';
+import { RegenerateQuickActionsCommand } from '../../../../commands/wizard/regenerateQuickActionsCommand';
+import { LwcGenerationCommand } from '../../../../commands/wizard/lwcGenerationCommand';
+import { OrgUtils } from '../../../../utils/orgUtils';
+
+suite('SObject Quick Actions Command Test Suite', () => {
+    let sandbox: sinon.SinonSandbox;
+
+    beforeEach(function () {
+        sandbox = sinon.createSandbox();
+    });
+
+    afterEach(function () {
+        sandbox.restore();
+    });
+
+    test('Any sObject of the org can be selected', async () => {
+        sandbox.stub(OrgUtils, 'getSobjects').resolves([
+            { apiName: 'Account', label: 'Account', labelPlural: 'Accounts' },
+            {
+                apiName: 'Work_Order__c',
+                label: 'Work Order',
+                labelPlural: 'Work Orders'
+            }
+        ]);
+        const showQuickPickStub = sandbox
+            .stub(window, 'showQuickPick')
+            .callsFake(async (items: any, options: any) => {
+                assert.ok(options.canPickMany);
+                assert.ok(options.matchOnDescription);
+                const sobjectItems = await items;
+                assert.equal(sobjectItems[1].description, 'Work_Order__c');
+                return [sobjectItems[1]] as any;
+            });
+
+        assert.deepStrictEqual(
+            await SObjectQuickActionsCommand.selectSObjects(),
+            ['Work_Order__c']
+        );
+        sandbox.assert.calledOnce(showQuickPickStub);
+    });
+
+    test('Picked quick actions are generated, the missing ones picked to start with', async () => {
+        // only the view quick action of Account exists
+        sandbox.stub(fs, 'statSync').callsFake((filePath: any) => {
+            if (
+                filePath
+                    .toString()
+                    .endsWith('Account.view.quickAction-meta.xml')
+            ) {
+                return { isFile: () => true } as any;
+            }
+            throw new Error('No such file');
+        });
+        sandbox.stub(window, 'showQuickPick').callsFake(async (items: any) => {
+            const quickActionItems = await items;
+            assert.deepStrictEqual(
+                quickActionItems.map((item: any) => [item.label, item.picked]),
+                [
+                    ['Account.view', false],
+                    ['Account.edit', true],
+                    ['Account.create', true],
+                    ['Case.view', true],
+                    ['Case.edit', true],
+                    ['Case.create', true]
+                ]
+            );
+            // the user regenerates the view and leaves out the create of Account
+            return quickActionItems.filter(
+                (item: any) => item.label !== 'Account.create'
+            );
+        });
+
+        const quickActionStatus =
+            await SObjectQuickActionsCommand.selectQuickActions([
+                'Account',
+                'Case'
+            ]);
+        assert.deepStrictEqual(quickActionStatus, {
+            sobjects: {
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                Account: { view: false, edit: false, create: true },
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                Case: { view: false, edit: false, create: false }
+            }
+        });
+    });
+
+    test('Picked quick actions are regenerated, so edits are not lost', async () => {
+        sandbox
+            .stub(SObjectQuickActionsCommand, 'selectSObjects')
+            .resolves(['Account', 'Case']);
+        sandbox
+            .stub(SObjectQuickActionsCommand, 'selectQuickActions')
+            .resolves({
+                sobjects: {
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    Account: { view: false, edit: true, create: false },
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    Case: { view: true, edit: true, create: true }
+                }
+            });
+        const regenerateStub = sandbox
+            .stub(RegenerateQuickActionsCommand, 'regenerateForSObject')
+            .resolves({ written: [], merged: [], kept: [] });
+        sandbox
+            .stub(LwcGenerationCommand, 'getQuickActionStatus')
+            .returns({ sobjects: {} });
+        const extensionUri = {} as any;
+
+        await SObjectQuickActionsCommand.generateForSObjects(extensionUri);
+
+        sandbox.assert.calledOnceWithExactly(
+            regenerateStub,
+            extensionUri,
+            'Account',
+            ['view', 'create']
+        );
+    });
+
+    test('Nothing is generated when no sObject is selected', async () => {
+        sandbox.stub(OrgUtils, 'getSobjects').resolves([]);
+        sandbox.stub(window, 'showQuickPick').resolves(undefined);
+
+        assert.equal(
+            await SObjectQuickActionsCommand.generateForSObjects({} as any),
+            undefined
+        );
+    });
+});
@@ -11,6 +11,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { mkdir } from 'fs/promises';
 import { afterEach, beforeEach } from 'mocha';
+import { QuickPickItem, commands, window } from 'vscode';
 import {
     TemplateChooserCommand,
     LandingPageType
@@ -18,6 +19,9 @@ import {
 import { TempProjectDirManager } from '../../../TestHelper';
 import { UIUtils } from '../../../../utils/uiUtils';
 import { WorkspaceUtils } from '../../../../utils/workspaceUtils';
+import { LandingPageTemplateLibrary } from '../../../../utils/landingPageTemplateLibrary';
+import { StaticResourceMetadata } from '../../../../utils/staticResourceMetadata';
+import { UEMBuilder } from '../../../../utils/uemBuilder';
 
 type LandingPageTestIOConfig = {
     [landingPageType in LandingPageType]?: {
@@ -277,11 +281,310 @@ suite('Template Chooser Command Test Suite', () => {
         await projectDirMgr.removeDir();
     });
 
+    test('Landing page template written to a named landing page', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirMgr.projectDir);
+        const setActiveStub = sandbox
+            .stub(TemplateChooserCommand, 'setActiveLandingPageName')
+            .resolves();
+        const staticResourcesAbsPath = path.join(
+            projectDirMgr.projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+        await mkdir(staticResourcesAbsPath, { recursive: true });
+        createLandingPageContent(
+            { retail: { jsonExists: true, metaExists: true } },
+            staticResourcesAbsPath
+        );
+
+        const copied = await TemplateChooserCommand.onLandingPageChosen({
+            landingPageType: 'retail',
+            landingPageName: 'Sales'
+        });
+
+        assert.ok(copied);
+        assert.equal(
+            fs.readFileSync(
+                path.join(staticResourcesAbsPath, 'landing_page_sales.json'),
+                { encoding: 'utf-8' }
+            ),
+            `retail ${TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION} content`
+        );
+        assert.ok(
+            !fs.existsSync(
+                path.join(staticResourcesAbsPath, 'landing_page.json')
+            )
+        );
+        assert.ok(setActiveStub.calledOnceWith('landing_page_sales'));
+        await projectDirMgr.removeDir();
+    });
+
+    test('Landing page template json is named after the landing page', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirMgr.projectDir);
+        sandbox
+            .stub(TemplateChooserCommand, 'setActiveLandingPageName')
+            .resolves();
+        const staticResourcesAbsPath = path.join(
+            projectDirMgr.projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+        await mkdir(staticResourcesAbsPath, { recursive: true });
+        const templateName =
+            TemplateChooserCommand.LANDING_PAGE_FILENAME_PREFIXES.retail;
+        const template = new UEMBuilder({ apiName: templateName })
+            .addGlobalActionCard()
+            .build();
+        fs.writeFileSync(
+            path.join(
+                staticResourcesAbsPath,
+                templateName +
+                    TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+            ),
+            JSON.stringify(template)
+        );
+
+        const copied = await TemplateChooserCommand.onLandingPageChosen({
+            landingPageType: 'retail',
+            landingPageName: 'Sales'
+        });
+
+        assert.ok(copied);
+        const uem = JSON.parse(
+            fs.readFileSync(
+                path.join(staticResourcesAbsPath, 'landing_page_sales.json'),
+                { encoding: 'utf-8' }
+            )
+        );
+        assert.deepStrictEqual(uem, {
+            ...template,
+            apiName: 'landing_page_sales',
+            id: uem.id
+        });
+        assert.notEqual(uem.id, template.id);
+        await projectDirMgr.removeDir();
+    });
+
+    test('Team template written with the default metadata', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        const templatesDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirMgr.projectDir);
+        sandbox
+            .stub(LandingPageTemplateLibrary, 'getTemplatesFolder')
+            .returns(templatesDirMgr.projectDir);
+        const staticResourcesAbsPath = path.join(
+            projectDirMgr.projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+        await mkdir(staticResourcesAbsPath, { recursive: true });
+        fs.writeFileSync(
+            path.join(templatesDirMgr.projectDir, 'field_service.json'),
+            'field service content'
+        );
+
+        const copied = await TemplateChooserCommand.onLandingPageChosen({
+            templateId: 'folder:field_service'
+        });
+
+        assert.ok(copied);
+        assert.equal(
+            fs.readFileSync(
+                path.join(staticResourcesAbsPath, 'landing_page.json'),
+                { encoding: 'utf-8' }
+            ),
+            'field service content'
+        );
+        assert.equal(
+            fs.readFileSync(
+                path.join(
+                    staticResourcesAbsPath,
+                    'landing_page.resource-meta.xml'
+                ),
+                { encoding: 'utf-8' }
+            ),
+            StaticResourceMetadata.generate()
+        );
+        await projectDirMgr.removeDir();
+        await templatesDirMgr.removeDir();
+    });
+
+    test('Landing page template merged into the existing landing page', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirMgr.projectDir);
+        const staticResourcesAbsPath = path.join(
+            projectDirMgr.projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+        await mkdir(staticResourcesAbsPath, { recursive: true });
+        fs.writeFileSync(
+            path.join(staticResourcesAbsPath, 'landing_page.json'),
+            new UEMBuilder().addGlobalActionCard().toJson()
+        );
+        fs.writeFileSync(
+            path.join(
+                staticResourcesAbsPath,
+                'landing_page_retail_execution.json'
+            ),
+            new UEMBuilder()
+                .addRecordListCard('Lead', 'Leads', [
+                    { apiName: 'Name', label: 'Name', type: 'string' }
+                ])
+                .toJson()
+        );
+        const askUserToOverwriteStub = sandbox
+            .stub(TemplateChooserCommand, 'askUserToOverwriteLandingPage')
+            .resolves('Merge');
+        const diffStub = sandbox.stub(commands, 'executeCommand').resolves();
+        sandbox
+            .stub(TemplateChooserCommand, 'selectCardMergePlan')
+            .resolves({ keep: [0], replace: [], add: [0] });
+
+        const merged = await TemplateChooserCommand.onLandingPageChosen({
+            landingPageType: 'retail'
+        });
+
+        assert.ok(merged);
+        assert.ok(askUserToOverwriteStub.calledOnceWith(true));
+        assert.equal(diffStub.args[0][0], 'vscode.diff');
+        const cards = UEMBuilder.fromJson(
+            fs.readFileSync(
+                path.join(staticResourcesAbsPath, 'landing_page.json'),
+                'utf8'
+            )
+        ).getCards();
+        assert.deepStrictEqual(
+            cards.map((card) => card.name),
+            ['global_actions', 'Leads']
+        );
+        assert.ok(
+            fs.existsSync(
+                path.join(
+                    staticResourcesAbsPath,
+                    'landing_page.resource-meta.xml'
+                )
+            )
+        );
+        await projectDirMgr.removeDir();
+    });
+
+    test('Template cards replace the selected cards', async () => {
+        // kept cards, added template cards, then where the added card goes
+        const showQuickPickStub = sandbox.stub(window, 'showQuickPick');
+        showQuickPickStub.onCall(0).resolves([
+            { label: 'Global Actions', index: 0 },
+            { label: 'Global Actions', index: 1 }
+        ] as unknown as QuickPickItem);
+        showQuickPickStub
+            .onCall(1)
+            .resolves([
+                { label: 'Global Actions', index: 0 }
+            ] as unknown as QuickPickItem);
+        showQuickPickStub.onCall(2).resolves({
+            label: "Replace 'Global Actions'",
+            index: 0
+        } as QuickPickItem);
+        const cards = new UEMBuilder()
+            .addGlobalActionCard()
+            .addGlobalActionCard()
+            .getCards();
+
+        const plan = await TemplateChooserCommand.selectCardMergePlan(
+            cards,
+            cards
+        );
+
+        assert.deepStrictEqual(plan, {
+            keep: [0, 1],
+            replace: [{ index: 0, templateIndex: 0 }],
+            add: []
+        });
+    });
+
+    test('Landing page names exclude the templates', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        for (const filename of [
+            'landing_page_sales.json',
+            'landing_page_default.json',
+            'landing_page.json',
+            'landing_page_service.json',
+            'landing_page_service.resource-meta.xml',
+            'other.json'
+        ]) {
+            fs.writeFileSync(
+                path.join(projectDirMgr.projectDir, filename),
+                '{}'
+            );
+        }
+
+        const names = await TemplateChooserCommand.getLandingPageNames(
+            projectDirMgr.projectDir
+        );
+
+        assert.deepStrictEqual(names, [
+            'landing_page',
+            'landing_page_sales',
+            'landing_page_service'
+        ]);
+        await projectDirMgr.removeDir();
+    });
+
     test('Landing page status: staticresources does not exist', async () => {
         const status = await TemplateChooserCommand.getLandingPageStatus();
         assert.ok(status.error && status.error.length > 0);
     });
 
+    test('Landing page status: team templates are landing page types', async () => {
+        const projectDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        const templatesDirMgr =
+            await TempProjectDirManager.createTempProjectDir();
+        sandbox
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(projectDirMgr.projectDir);
+        sandbox
+            .stub(LandingPageTemplateLibrary, 'getTemplatesFolder')
+            .returns(templatesDirMgr.projectDir);
+        await mkdir(
+            path.join(
+                projectDirMgr.projectDir,
+                WorkspaceUtils.STATIC_RESOURCES_PATH
+            ),
+            { recursive: true }
+        );
+        fs.writeFileSync(
+            path.join(templatesDirMgr.projectDir, 'field_service.json'),
+            '{}'
+        );
+
+        const status = await TemplateChooserCommand.getLandingPageStatus();
+
+        assert.deepStrictEqual(Object.keys(status.landingPageCollection), [
+            'existing',
+            ...Object.keys(LandingPageTemplateLibrary.STARTER_KIT_TEMPLATES),
+            'folder:field_service'
+        ]);
+        assert.equal(
+            status.landingPageCollection['folder:field_service']!.exists,
+            true
+        );
+        await projectDirMgr.removeDir();
+        await templatesDirMgr.removeDir();
+    });
+
     test('Landing page status: various file existence scenarios', async () => {
         const projectDirMgr =
             await TempProjectDirManager.createTempProjectDir();
@@ -327,7 +630,8 @@ suite('Template Chooser Command Test Suite', () => {
             const config = landingPageConfig[landingPageType]!;
             const landingPageCollectionStatus =
                 landingPageStatus.landingPageCollection[landingPageType]!;
-            if (config.jsonExists && config.metaExists) {
+            // the metadata is generated when missing, only the json is needed
+            if (config.jsonExists) {
                 assert.equal(landingPageCollectionStatus.exists, true);
                 assert.ok(!landingPageCollectionStatus.warning);
             } else {
@@ -0,0 +1,90 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as path from 'path';
+import { afterEach } from 'mocha';
+import { DiagnosticSeverity, TextDocument, Uri, workspace } from 'vscode';
+import { LandingPageDiagnostics } from '../../../diagnostics/landingPageDiagnostics';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
+import { UEMBuilder } from '../../../utils/uemBuilder';
+import { createPlatformAbsolutePath } from '../../TestHelper';
+
+suite('Landing Page Diagnostics Test Suite', () => {
+    afterEach(function () {
+        sinon.restore();
+    });
+
+    async function openJson(content: string): Promise<TextDocument> {
+        return workspace.openTextDocument({ language: 'json', content });
+    }
+
+    test('Syntax errors are reported', async () => {
+        const document = await openJson('{ "view": ');
+
+        const diagnostics = LandingPageDiagnostics.computeDiagnostics(document);
+        assert.ok(diagnostics.length > 0);
+        assert.equal(diagnostics[0].severity, DiagnosticSeverity.Error);
+    });
+
+    test('Valid landing page has no diagnostics', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+        const document = await openJson(JSON.stringify(uem, null, 2));
+
+        const diagnostics = LandingPageDiagnostics.computeDiagnostics(document);
+        assert.equal(diagnostics.length, 0);
+    });
+
+    test('Problems are reported on the offending value', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .build();
+        const content = JSON.stringify(uem, null, 2).replace(
+            '"size": 3',
+            '"size": 42'
+        );
+        const document = await openJson(content);
+
+        const diagnostics = LandingPageDiagnostics.computeDiagnostics(document);
+        assert.equal(diagnostics.length, 1);
+        assert.equal(document.getText(diagnostics[0].range), '42');
+    });
+
+    test('Only landing pages under static resources are validated', async () => {
+        const projectDir = createPlatformAbsolutePath('project');
+        sinon.stub(WorkspaceUtils, 'getWorkspaceDir').returns(projectDir);
+        const staticResourcesDir = path.join(
+            projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+
+        const isLandingPage = (fsPath: string) =>
+            LandingPageDiagnostics.isLandingPageDocument({
+                uri: Uri.file(fsPath)
+            } as TextDocument);
+
+        assert.ok(
+            isLandingPage(path.join(staticResourcesDir, 'landing_page.json'))
+        );
+        assert.ok(
+            isLandingPage(
+                path.join(staticResourcesDir, 'landing_page_retail.json')
+            )
+        );
+        assert.equal(
+            isLandingPage(path.join(staticResourcesDir, 'other.json')),
+            false
+        );
+        assert.equal(
+            isLandingPage(path.join(projectDir, 'landing_page.json')),
+            false
+        );
+    });
+});
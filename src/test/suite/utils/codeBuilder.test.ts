@@ -12,7 +12,10 @@ import { Uri } from 'vscode';
 import { afterEach, beforeEach } from 'mocha';
 import * as fs from 'fs';
 import * as path from 'path';
-import { CompactLayoutField } from '../../../utils/orgUtils';
+import { CompactLayoutField, Field } from '../../../utils/orgUtils';
+import { TemplateError } from '../../../utils/templateEngine';
+import { GeneratedFileMarker } from '../../../utils/generatedFileMarker';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
 
 suite('CodeBuilder Test Suite', () => {
     var extensionUri = Uri.parse('file:///tmp/');
@@ -40,6 +43,8 @@ suite('CodeBuilder Test Suite', () => {
             CodeBuilder.TEMPLATE_IMPORTS,
             CodeBuilder.TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML,
             CodeBuilder.TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML,
+            CodeBuilder.TEMPLATE_NAME_FIELD,
+            CodeBuilder.TEMPLATE_NAME_FIELD_API_NAME,
             CodeBuilder.TEMPLATE_OBJECT_API_NAME,
             CodeBuilder.TEMPLATE_VARIABLES,
             CodeBuilder.TEMPLATE_VARIABLE_ASSIGNMENTS,
@@ -110,7 +115,7 @@ suite('CodeBuilder Test Suite', () => {
 
         await codeBuilder.generateView();
         assert.equal(recordedFiles.length, 5);
-        assert.equal(mkdirStub.callCount, 5); // for every file in test case
+        assert.equal(mkdirStub.callCount, 10); // for every file in test case and its base
 
         // CSS file
         var dirPath = 'force-app/main/default/lwc/viewAccountRecord';
@@ -171,7 +176,7 @@ suite('CodeBuilder Test Suite', () => {
 
         await codeBuilder.generateEdit();
         assert.equal(recordedFiles.length, 5);
-        assert.equal(mkdirStub.callCount, 5); // for every file in test case
+        assert.equal(mkdirStub.callCount, 10); // for every file in test case and its base
 
         // CSS file
         var dirPath = 'force-app/main/default/lwc/editAccountRecord';
@@ -232,7 +237,7 @@ suite('CodeBuilder Test Suite', () => {
 
         await codeBuilder.generateCreate();
         assert.equal(recordedFiles.length, 5);
-        assert.equal(mkdirStub.callCount, 5); // for every file in test case
+        assert.equal(mkdirStub.callCount, 10); // for every file in test case and its base
 
         // CSS file
         var dirPath = 'force-app/main/default/lwc/createAccountRecord';
@@ -273,6 +278,98 @@ suite('CodeBuilder Test Suite', () => {
         assert.equal(recordedFiles[4].data, SAMPLE_QA_DATA);
     });
 
+    test('Templates loop over the fields of the template context', async () => {
+        const result = stubFileSystem([
+            SAMPLE_CSS_DATA,
+            '{% each createFields as field %}\n<lightning-input-field field-name={{% field.fieldVariable %}}></lightning-input-field>\n{% endeach %}\n',
+            SAMPLE_JS_DATA,
+            '<masterLabel>{% createLwcLabel %}</masterLabel>',
+            SAMPLE_QA_DATA
+        ]);
+        const recordedFiles = result[0];
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Account',
+            buildTestCompactLayoutFields()
+        );
+
+        await codeBuilder.generateCreate();
+        assert.equal(
+            recordedFiles[1].data,
+            '<lightning-input-field field-name={field1Field}></lightning-input-field>\n'
+        );
+        assert.equal(
+            recordedFiles[3].data,
+            '<masterLabel>LWC for creating a/an Account instance.</masterLabel>'
+        );
+    });
+
+    test('Unresolved template names fail the generation', async () => {
+        stubFileSystem([
+            SAMPLE_CSS_DATA,
+            '{% missingField %}',
+            SAMPLE_JS_DATA,
+            SAMPLE_XML_DATA,
+            SAMPLE_QA_DATA
+        ]);
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Account',
+            buildTestCompactLayoutFields()
+        );
+
+        await assert.rejects(codeBuilder.generateView(), TemplateError);
+    });
+
+    test('A dry run collects the generated files without writing them', async () => {
+        const result = stubFileSystem([
+            SAMPLE_CSS_DATA,
+            SAMPLE_HTML_DATA,
+            SAMPLE_JS_DATA,
+            SAMPLE_XML_DATA,
+            SAMPLE_QA_DATA
+        ]);
+        const recordedFiles = result[0];
+        const mkdirStub = result[1];
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Account',
+            buildTestCompactLayoutFields()
+        );
+        codeBuilder.dryRun = true;
+
+        await codeBuilder.generateEdit();
+        assert.equal(recordedFiles.length, 0);
+        assert.equal(mkdirStub.callCount, 0);
+        assert.deepStrictEqual(
+            codeBuilder.generatedFiles.map((file) => file.filePath),
+            [
+                ...CodeBuilder.TEMPLATE_FILE_EXTENSIONS.map((extension) =>
+                    path.normalize(
+                        `force-app/main/default/lwc/editAccountRecord/editAccountRecord.${extension}`
+                    )
+                ),
+                path.normalize(
+                    'force-app/main/default/quickActions/Account.edit.quickAction-meta.xml'
+                )
+            ]
+        );
+        assert.equal(
+            GeneratedFileMarker.unstamp(codeBuilder.generatedFiles[1].content)
+                .content,
+            SAMPLE_HTML_DATA
+        );
+
+        // an accepted file is written as generated
+        CodeBuilder.writeGeneratedFile(codeBuilder.generatedFiles[4]);
+        assert.equal(recordedFiles.length, 1);
+        assert.equal(
+            recordedFiles[0].filePath,
+            codeBuilder.generatedFiles[4].filePath
+        );
+        assert.equal(recordedFiles[0].data, SAMPLE_QA_DATA);
+    });
+
     test('Field names are populated in constructor', () => {
         const compactLayoutFields = buildTestCompactLayoutFields();
         const codeBuilder = new CodeBuilder(
@@ -347,6 +444,270 @@ suite('CodeBuilder Test Suite', () => {
         );
     });
 
+    test('Template variables follow the describe of the fields', () => {
+        const compactLayoutFields = [
+            'Name',
+            'AccountId',
+            'Birthdate',
+            'LeadSource',
+            'DoNotCall',
+            'MailingAddress',
+            'Age__c',
+            'CreatedDate'
+        ].map((fieldName) => {
+            return {
+                editableForNew: true,
+                editableForUpdate: true,
+                label: fieldName,
+                layoutComponents: [{ value: fieldName }]
+            };
+        });
+        const fields: Field[] = [
+            buildField('Name', 'string', {
+                createable: false,
+                updateable: false
+            }),
+            buildField('FirstName', 'string', { compoundFieldName: 'Name' }),
+            buildField('LastName', 'string', {
+                compoundFieldName: 'Name',
+                nillable: false
+            }),
+            buildField('AccountId', 'reference', { updateable: false }),
+            buildField('Birthdate', 'date', {}),
+            buildField('LeadSource', 'picklist', {}),
+            buildField('DoNotCall', 'boolean', {
+                nillable: false,
+                defaultedOnCreate: true
+            }),
+            buildField('MailingAddress', 'address', {
+                createable: false,
+                updateable: false
+            }),
+            buildField('MailingCity', 'string', {
+                compoundFieldName: 'MailingAddress'
+            }),
+            buildField('Age__c', 'double', {
+                calculated: true,
+                createable: false,
+                updateable: false
+            }),
+            buildField('CreatedDate', 'datetime', {
+                createable: false,
+                updateable: false,
+                nillable: false
+            })
+        ];
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Contact',
+            compactLayoutFields,
+            fields
+        );
+        const templateVars = codeBuilder.templateVariables;
+
+        // compound fields are viewed through their components
+        assert.equal(
+            templateVars[CodeBuilder.TEMPLATE_FIELDS],
+            'FIRSTNAME_FIELD, LASTNAME_FIELD, ACCOUNTID_FIELD, BIRTHDATE_FIELD, LEADSOURCE_FIELD, DONOTCALL_FIELD, MAILINGCITY_FIELD, AGE_C_FIELD, CREATEDDATE_FIELD, '
+        );
+
+        const createHtml =
+            templateVars[
+                CodeBuilder.TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML
+            ];
+        assert.ok(
+            createHtml.includes(
+                '<lightning-input-field field-name={nameField} required></lightning-input-field>'
+            )
+        );
+        assert.ok(
+            createHtml.includes(
+                '<lightning-input-field field-name={accountIdField} value={accountId}></lightning-input-field>'
+            )
+        );
+        assert.ok(
+            createHtml.includes(
+                '<lightning-input-field field-name={leadSourceField}></lightning-input-field>'
+            )
+        );
+        assert.ok(
+            createHtml.includes(
+                '<lightning-input-field field-name={mailingAddressField}></lightning-input-field>'
+            )
+        );
+        assert.ok(!createHtml.includes('ageCField'));
+        assert.ok(!createHtml.includes('createdDateField'));
+
+        const editHtml =
+            templateVars[CodeBuilder.TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML];
+        assert.ok(
+            editHtml.includes(
+                '<lightning-output-field field-name={accountIdField}></lightning-output-field>'
+            )
+        );
+        assert.ok(!editHtml.includes('ageCField'));
+        assert.ok(!editHtml.includes('createdDateField'));
+
+        const assignments =
+            templateVars[CodeBuilder.TEMPLATE_VARIABLE_ASSIGNMENTS];
+        assert.ok(assignments.includes('accountId = null;'));
+        assert.ok(assignments.includes('birthdate = null;'));
+        assert.ok(!assignments.includes('leadSource ='));
+        assert.ok(!assignments.includes('doNotCall ='));
+        assert.ok(!assignments.includes('name ='));
+    });
+
+    test('Name field is imported when the compact layout lacks it', () => {
+        const compactLayoutFields = buildTestCompactLayoutFields();
+
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Account',
+            compactLayoutFields
+        );
+        assert.equal(codeBuilder.nameField, 'Name');
+        assert.ok(
+            codeBuilder.templateVariables[
+                CodeBuilder.TEMPLATE_IMPORTS
+            ].includes(
+                'import NAME_FIELD from "@salesforce/schema/Account.Name";'
+            )
+        );
+        assert.equal(
+            codeBuilder.templateVariables[CodeBuilder.TEMPLATE_NAME_FIELD],
+            'NAME_FIELD'
+        );
+    });
+
+    test('Name field comes from the describe', () => {
+        const compactLayoutFields = buildTestCompactLayoutFields();
+
+        const caseBuilder = new CodeBuilder(
+            extensionUri,
+            'Case',
+            compactLayoutFields,
+            [
+                buildField('field1', 'string', {}),
+                buildField('CaseNumber', 'string', {
+                    nameField: true,
+                    autoNumber: true
+                })
+            ]
+        );
+        const templateVars = caseBuilder.templateVariables;
+        assert.equal(caseBuilder.nameField, 'CaseNumber');
+        assert.equal(
+            templateVars[CodeBuilder.TEMPLATE_NAME_FIELD],
+            'CASENUMBER_FIELD'
+        );
+        assert.equal(
+            templateVars[CodeBuilder.TEMPLATE_NAME_FIELD_API_NAME],
+            'CaseNumber'
+        );
+        assert.ok(
+            templateVars[CodeBuilder.TEMPLATE_IMPORTS].includes(
+                'import CASENUMBER_FIELD from "@salesforce/schema/Case.CaseNumber";'
+            )
+        );
+        // the name field is only read for the header
+        assert.ok(
+            !templateVars[CodeBuilder.TEMPLATE_FIELDS].includes(
+                'CASENUMBER_FIELD'
+            )
+        );
+
+        const unnamedBuilder = new CodeBuilder(
+            extensionUri,
+            'Unnamed__c',
+            compactLayoutFields,
+            [buildField('field1', 'string', {})]
+        );
+        assert.equal(unnamedBuilder.nameField, 'Id');
+    });
+
+    test('Identifiers are valid and unique for any field', () => {
+        const compactLayoutFields = [
+            'ns__Thing__c',
+            'My_Field__c',
+            'My_Field_c',
+            'Owner.Name',
+            'RecordId__c'
+        ].map((fieldName) => {
+            return {
+                editableForNew: true,
+                editableForUpdate: true,
+                label: fieldName,
+                layoutComponents: [{ value: fieldName }]
+            };
+        });
+        const codeBuilder = new CodeBuilder(
+            extensionUri,
+            'Account',
+            compactLayoutFields
+        );
+
+        assert.deepEqual(codeBuilder.getFieldIdentifiers('ns__Thing__c'), {
+            importName: 'NS_THING_C_FIELD',
+            fieldVariable: 'nsThingCField',
+            valueVariable: 'nsThingC'
+        });
+        assert.deepEqual(codeBuilder.getFieldIdentifiers('My_Field__c'), {
+            importName: 'MY_FIELD_C_FIELD',
+            fieldVariable: 'myFieldCField',
+            valueVariable: 'myFieldC'
+        });
+        // collides with My_Field__c
+        assert.deepEqual(codeBuilder.getFieldIdentifiers('My_Field_c'), {
+            importName: 'MY_FIELD_C_2_FIELD',
+            fieldVariable: 'myFieldC2Field',
+            valueVariable: 'myFieldC2'
+        });
+        // field names are case insensitive
+        assert.equal(
+            codeBuilder.getFieldIdentifiers('my_field__C').importName,
+            'MY_FIELD_C_FIELD'
+        );
+
+        const templateVars = codeBuilder.templateVariables;
+        assert.ok(
+            templateVars[CodeBuilder.TEMPLATE_IMPORTS].includes(
+                'import OWNER_NAME_FIELD from "@salesforce/schema/Account.Owner.Name";'
+            )
+        );
+        assert.ok(
+            templateVars[CodeBuilder.TEMPLATE_FIELDS].includes(
+                'OWNER_NAME_FIELD'
+            )
+        );
+        // fields of related records are not edited
+        assert.ok(
+            !templateVars[
+                CodeBuilder.TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML
+            ].includes('ownerNameField')
+        );
+        assert.ok(
+            templateVars[CodeBuilder.TEMPLATE_VARIABLE_ASSIGNMENTS].includes(
+                'recordIdC = "";'
+            )
+        );
+    });
+
+    function buildField(
+        apiName: string,
+        type: string,
+        describe: Partial<Field>
+    ): Field {
+        return {
+            apiName,
+            label: apiName,
+            type,
+            nillable: true,
+            createable: true,
+            updateable: true,
+            ...describe
+        };
+    }
+
     function buildTestCompactLayoutFields() {
         const compactLayoutFields: CompactLayoutField[] = [];
         compactLayoutFields.push({
@@ -382,16 +743,42 @@ suite('CodeBuilder Test Suite', () => {
         sinon.stub(fs, 'existsSync').returns(false);
         const mkdirStub = sinon.stub(fs, 'mkdirSync');
 
+        // the bases of the generated files are kept under the workspace
+        sinon.stub(WorkspaceUtils, 'getWorkspaceDir').returns('/workspace');
+
         // capture written out content
         const writeStub = sinon.stub(fs, 'writeFileSync');
         var recordedFiles: any = [];
         writeStub.callsFake((filePath, data, encoding) => {
-            // store values of all invocations
+            assert.equal(encoding, 'utf8');
+            // the base of a generated file is the file as written
+            if (
+                filePath
+                    .toString()
+                    .startsWith(GeneratedFileMarker.getBaseFilePath(''))
+            ) {
+                assert.equal(
+                    filePath,
+                    GeneratedFileMarker.getBaseFilePath(
+                        recordedFiles[recordedFiles.length - 1].filePath
+                    )
+                );
+                assert.equal(
+                    data,
+                    recordedFiles[recordedFiles.length - 1].stamped
+                );
+                return;
+            }
+            // store values of all invocations, without the marker of the generated files
+            const { hash, content } = GeneratedFileMarker.unstamp(
+                data.toString()
+            );
+            assert.equal(hash, GeneratedFileMarker.hash(content));
             recordedFiles.push({
                 filePath: filePath,
-                data: data
+                data: content,
+                stamped: data
             });
-            assert.equal(encoding, 'utf8');
         });
 
         // Return the recorded invocations of file write operations as well as the mkdirStub itself.
@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { afterEach, beforeEach } from 'mocha';
+import { GeneratedFileMarker } from '../../../utils/generatedFileMarker';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('Generated File Marker Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    test('Marker is commented out in the language of the file', () => {
+        const hash = GeneratedFileMarker.hash('content\n');
+        const marker = `Generated by Salesforce Mobile Extensions, hash: ${hash}`;
+        assert.equal(
+            GeneratedFileMarker.stamp('view.js', 'content\n'),
+            `// ${marker}\ncontent\n`
+        );
+        assert.equal(
+            GeneratedFileMarker.stamp('view.css', 'content\n'),
+            `/* ${marker} */\ncontent\n`
+        );
+        assert.equal(
+            GeneratedFileMarker.stamp('view.json', 'content\n'),
+            'content\n'
+        );
+    });
+
+    test('Marker follows the xml declaration and the root template', () => {
+        const xml = '<?xml version="1.0" encoding="UTF-8"?>\n<QuickAction/>\n';
+        const stampedXml = GeneratedFileMarker.stamp('Account.view.xml', xml);
+        assert.ok(
+            stampedXml.startsWith(
+                '<?xml version="1.0" encoding="UTF-8"?>\n<!-- Generated by Salesforce Mobile Extensions, hash: '
+            )
+        );
+        assert.deepStrictEqual(GeneratedFileMarker.unstamp(stampedXml), {
+            hash: GeneratedFileMarker.hash(xml),
+            content: xml
+        });
+
+        const html = '<template>\n    <div></div>\n</template>\n';
+        const stampedHtml = GeneratedFileMarker.stamp('view.html', html);
+        assert.ok(
+            stampedHtml.startsWith(
+                '<template>\n    <!-- Generated by Salesforce Mobile Extensions, hash: '
+            )
+        );
+        assert.equal(GeneratedFileMarker.unstamp(stampedHtml).content, html);
+    });
+
+    test('State tells untouched files from edited ones', () => {
+        const filePath = path.join(dirManager.projectDir, 'view.js');
+        assert.equal(GeneratedFileMarker.getState(filePath), 'missing');
+
+        fs.writeFileSync(filePath, 'export default class View {}\n');
+        assert.equal(GeneratedFileMarker.getState(filePath), 'unmarked');
+
+        const stamped = GeneratedFileMarker.stamp(
+            'view.js',
+            'export default class View {}\n'
+        );
+        fs.writeFileSync(filePath, stamped);
+        assert.equal(GeneratedFileMarker.getState(filePath), 'untouched');
+
+        // line endings converted by a checkout are not edits
+        fs.writeFileSync(filePath, stamped.replace(/\n/g, '\r\n'));
+        assert.equal(GeneratedFileMarker.getState(filePath), 'untouched');
+
+        fs.writeFileSync(filePath, stamped.replace('View', 'EditedView'));
+        assert.equal(GeneratedFileMarker.getState(filePath), 'edited');
+    });
+
+    test('Base of a generated file is under the workspace', () => {
+        sinon
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(dirManager.projectDir);
+        const filePath = path.join(WorkspaceUtils.LWC_PATH, 'view', 'view.js');
+
+        assert.equal(
+            GeneratedFileMarker.getBaseFilePath(filePath),
+            path.join(dirManager.projectDir, '.sfmobile', 'generated', filePath)
+        );
+    });
+});
@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import {
+    LandingPageBackup,
+    LandingPageBackups
+} from '../../../utils/landingPageBackups';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('Landing Page Backups Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+    let staticResourcesPath: string;
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(dirManager.projectDir);
+        staticResourcesPath = path.join(
+            dirManager.projectDir,
+            WorkspaceUtils.STATIC_RESOURCES_PATH
+        );
+        fs.mkdirSync(staticResourcesPath, { recursive: true });
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    function writeLandingPage(content: string) {
+        fs.writeFileSync(
+            path.join(staticResourcesPath, 'landing_page.json'),
+            content
+        );
+        fs.writeFileSync(
+            path.join(staticResourcesPath, 'landing_page.resource-meta.xml'),
+            `${content} meta`
+        );
+    }
+
+    function readLandingPage(): string {
+        return fs.readFileSync(
+            path.join(staticResourcesPath, 'landing_page.json'),
+            'utf8'
+        );
+    }
+
+    test('Nothing is backed up without a landing page', async () => {
+        assert.equal(
+            await LandingPageBackups.backup(
+                staticResourcesPath,
+                'landing_page'
+            ),
+            undefined
+        );
+        assert.deepStrictEqual(await LandingPageBackups.getBackups(), []);
+    });
+
+    test('Landing page and metadata are backed up, the most recent first', async () => {
+        writeLandingPage('first');
+        const first = await LandingPageBackups.backup(
+            staticResourcesPath,
+            'landing_page'
+        );
+        writeLandingPage('second');
+        await LandingPageBackups.backup(staticResourcesPath, 'landing_page');
+
+        assert.deepStrictEqual(first!.filenames, [
+            'landing_page.json',
+            'landing_page.resource-meta.xml'
+        ]);
+        assert.ok(
+            first!.folderPath.startsWith(
+                path.join(
+                    dirManager.projectDir,
+                    LandingPageBackups.BACKUPS_PATH
+                )
+            )
+        );
+        const backups = await LandingPageBackups.getBackups('landing_page');
+        assert.equal(backups.length, 2);
+        assert.equal(
+            fs.readFileSync(
+                path.join(backups[0].folderPath, 'landing_page.json'),
+                'utf8'
+            ),
+            'second'
+        );
+        assert.equal(backups[1].folderPath, first!.folderPath);
+    });
+
+    test('Restoring a backup backs up the current landing page', async () => {
+        writeLandingPage('first');
+        const first = await LandingPageBackups.backup(
+            staticResourcesPath,
+            'landing_page'
+        );
+        writeLandingPage('second');
+
+        await LandingPageBackups.restore(first!, staticResourcesPath);
+
+        assert.equal(readLandingPage(), 'first');
+        const backups = await LandingPageBackups.getBackups();
+        assert.equal(backups.length, 2);
+        assert.equal(
+            fs.readFileSync(
+                path.join(backups[0].folderPath, 'landing_page.json'),
+                'utf8'
+            ),
+            'second'
+        );
+    });
+
+    test('Only the most recent backups are kept', async () => {
+        sinon.stub(LandingPageBackups, 'MAX_BACKUPS_PER_LANDING_PAGE').value(2);
+        for (const content of ['first', 'second', 'third']) {
+            writeLandingPage(content);
+            await LandingPageBackups.backup(
+                staticResourcesPath,
+                'landing_page'
+            );
+        }
+
+        const backups = await LandingPageBackups.getBackups('landing_page');
+        assert.deepStrictEqual(
+            backups.map((backup) =>
+                fs.readFileSync(
+                    path.join(backup.folderPath, 'landing_page.json'),
+                    'utf8'
+                )
+            ),
+            ['third', 'second']
+        );
+    });
+
+    test('Restoring the oldest backup keeps it', async () => {
+        sinon.stub(LandingPageBackups, 'MAX_BACKUPS_PER_LANDING_PAGE').value(2);
+        const backups: LandingPageBackup[] = [];
+        for (const content of ['first', 'second']) {
+            writeLandingPage(content);
+            backups.push(
+                (await LandingPageBackups.backup(
+                    staticResourcesPath,
+                    'landing_page'
+                ))!
+            );
+        }
+        writeLandingPage('third');
+
+        await LandingPageBackups.restore(backups[0], staticResourcesPath);
+
+        assert.equal(readLandingPage(), 'first');
+        assert.deepStrictEqual(
+            (await LandingPageBackups.getBackups('landing_page')).map(
+                (backup) =>
+                    fs.readFileSync(
+                        path.join(backup.folderPath, 'landing_page.json'),
+                        'utf8'
+                    )
+            ),
+            ['third', 'first']
+        );
+    });
+});
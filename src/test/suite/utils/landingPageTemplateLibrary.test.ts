@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { LandingPageTemplateLibrary } from '../../../utils/landingPageTemplateLibrary';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('Landing Page Template Library Test Suite', () => {
+    let staticResourcesDir: TempProjectDirManager;
+    let templatesDir: TempProjectDirManager;
+
+    beforeEach(async function () {
+        staticResourcesDir = await TempProjectDirManager.createTempProjectDir();
+        templatesDir = await TempProjectDirManager.createTempProjectDir();
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await staticResourcesDir.removeDir();
+        await templatesDir.removeDir();
+    });
+
+    function writeFiles(dir: string, files: [string, string][]) {
+        for (const [filename, content] of files) {
+            fs.writeFileSync(path.join(dir, filename), content, 'utf8');
+        }
+    }
+
+    test('Templates of a folder are described by their manifest', async () => {
+        writeFiles(templatesDir.projectDir, [
+            ['field_service.json', '{}'],
+            [
+                'field_service.template.json',
+                '{ "title": "Field Service", "description": "Work orders", "thumbnail": "field_service.png" }'
+            ],
+            ['insurance.json', '{}'],
+            ['notes.txt', '']
+        ]);
+
+        const templates = await LandingPageTemplateLibrary.getFolderTemplates(
+            templatesDir.projectDir,
+            'folder'
+        );
+
+        assert.deepStrictEqual(
+            templates.map((template) => template.id),
+            ['folder:field_service', 'folder:insurance']
+        );
+        assert.equal(templates[0].title, 'Field Service');
+        assert.equal(templates[0].description, 'Work orders');
+        assert.equal(
+            templates[0].thumbnailPath,
+            path.join(templatesDir.projectDir, 'field_service.png')
+        );
+        assert.equal(templates[1].title, 'insurance');
+        assert.equal(
+            templates[1].metaPath,
+            path.join(templatesDir.projectDir, 'insurance.resource-meta.xml')
+        );
+    });
+
+    test('Static resources are not templates, even with a manifest', async () => {
+        writeFiles(staticResourcesDir.projectDir, [
+            ['landing_page.json', '{}'],
+            ['landing_page_sales.json', '{}'],
+            ['manufacturing.json', '{}'],
+            ['manufacturing.template.json', '{ "title": "Manufacturing" }']
+        ]);
+        sinon
+            .stub(LandingPageTemplateLibrary, 'getTemplatesFolder')
+            .returns(templatesDir.projectDir);
+        sinon
+            .stub(LandingPageTemplateLibrary, 'getSettingsTemplates')
+            .returns([]);
+        writeFiles(templatesDir.projectDir, [['retail_plus.json', '{}']]);
+
+        const templates = await LandingPageTemplateLibrary.getTemplates(
+            staticResourcesDir.projectDir
+        );
+
+        assert.deepStrictEqual(
+            templates.map((template) => template.id),
+            [
+                'default',
+                'caseManagement',
+                'healthcare',
+                'retail',
+                'folder:retail_plus'
+            ]
+        );
+    });
+
+    test('Thumbnails are read as data URIs', async () => {
+        writeFiles(templatesDir.projectDir, [
+            ['thumbnail.svg', '<svg></svg>'],
+            ['thumbnail.bmp', '']
+        ]);
+
+        assert.equal(
+            await LandingPageTemplateLibrary.getThumbnailDataUri(
+                path.join(templatesDir.projectDir, 'thumbnail.svg')
+            ),
+            `data:image/svg+xml;base64,${Buffer.from('<svg></svg>').toString('base64')}`
+        );
+        assert.equal(
+            await LandingPageTemplateLibrary.getThumbnailDataUri(
+                path.join(templatesDir.projectDir, 'thumbnail.bmp')
+            ),
+            undefined
+        );
+        assert.equal(
+            await LandingPageTemplateLibrary.getThumbnailDataUri(
+                path.join(templatesDir.projectDir, 'missing.png')
+            ),
+            undefined
+        );
+    });
+});
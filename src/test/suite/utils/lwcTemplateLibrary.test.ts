@@ -0,0 +1,99 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Uri } from 'vscode';
+import { afterEach, beforeEach } from 'mocha';
+import { LwcTemplateLibrary } from '../../../utils/lwcTemplateLibrary';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('LWC Template Library Test Suite', () => {
+    const extensionUri = Uri.file('/extension');
+    let dirManager: TempProjectDirManager;
+    let templatesFolder: string;
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(dirManager.projectDir);
+        templatesFolder = path.join(
+            dirManager.projectDir,
+            LwcTemplateLibrary.DEFAULT_TEMPLATES_FOLDER
+        );
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    function writeTemplate(templateFilePath: string) {
+        const filePath = path.join(templatesFolder, templateFilePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, templateFilePath, 'utf8');
+    }
+
+    function bundledTemplate(templateFilePath: string): string {
+        return Uri.joinPath(
+            extensionUri,
+            WorkspaceUtils.LWC_TEMPLATE_PATH,
+            templateFilePath
+        ).fsPath;
+    }
+
+    test('Bundled templates are used without overrides', () => {
+        assert.equal(
+            LwcTemplateLibrary.resolveTemplateFile(
+                extensionUri,
+                path.join('editRecord', 'editRecord.html')
+            ),
+            bundledTemplate(path.join('editRecord', 'editRecord.html'))
+        );
+    });
+
+    test('Each template file falls back from the template set to the bundled ones', () => {
+        writeTemplate(
+            path.join('designSystem', 'editRecord', 'editRecord.html')
+        );
+        writeTemplate(path.join('editRecord', 'editRecord.html'));
+        writeTemplate(path.join('editRecord', 'editRecord.js'));
+        writeTemplate('quickAction.xml');
+
+        const resolve = (templateFilePath: string) =>
+            LwcTemplateLibrary.resolveTemplateFile(
+                extensionUri,
+                templateFilePath,
+                'designSystem'
+            );
+        assert.equal(
+            resolve(path.join('editRecord', 'editRecord.html')),
+            path.join(
+                templatesFolder,
+                'designSystem',
+                'editRecord',
+                'editRecord.html'
+            )
+        );
+        assert.equal(
+            resolve(path.join('editRecord', 'editRecord.js')),
+            path.join(templatesFolder, 'editRecord', 'editRecord.js')
+        );
+        assert.equal(
+            resolve('quickAction.xml'),
+            path.join(templatesFolder, 'quickAction.xml')
+        );
+        assert.equal(
+            resolve(path.join('editRecord', 'editRecord.css')),
+            bundledTemplate(path.join('editRecord', 'editRecord.css'))
+        );
+    });
+});
@@ -302,6 +302,10 @@ suite('Org Utils Test Suite', () => {
             assert.equal(fields[i].apiName, sobjectFields[i].name);
             assert.equal(fields[i].label, sobjectFields[i].label);
             assert.equal(fields[i].type, sobjectFields[i].type);
+            assert.equal(fields[i].sortable, sobjectFields[i].sortable);
+            assert.equal(fields[i].createable, sobjectFields[i].createable);
+            assert.equal(fields[i].updateable, sobjectFields[i].updateable);
+            assert.equal(fields[i].nillable, sobjectFields[i].nillable);
         }
     });
 
@@ -367,6 +371,45 @@ suite('Org Utils Test Suite', () => {
         };
     }
 
+    test('Sample records are queried with a clamped limit', async () => {
+        const stubConnection = stubWorkspaceContextConnection();
+        stubConnection.query.resolves({
+            done: true,
+            totalSize: 0,
+            records: []
+        });
+
+        await OrgUtils.getSampleRecords(
+            'Work_Order__c',
+            ['Name', 'Owner.Name'],
+            'Name desc nulls last, CreatedDate',
+            2.5
+        );
+        await OrgUtils.getSampleRecords('Account', [], undefined, 1e9);
+
+        assert.deepStrictEqual(stubConnection.query.args, [
+            [
+                'SELECT Name, Owner.Name FROM Work_Order__c ORDER BY Name desc nulls last, CreatedDate LIMIT 2'
+            ],
+            [`SELECT Id FROM Account LIMIT ${OrgUtils.MAX_SAMPLE_RECORDS}`]
+        ]);
+    });
+
+    test('Sample records of invalid names are not queried', async () => {
+        const stubConnection = stubWorkspaceContextConnection();
+
+        await assert.rejects(
+            OrgUtils.getSampleRecords('Account WHERE', ['Name'], undefined, 3)
+        );
+        await assert.rejects(
+            OrgUtils.getSampleRecords('Account', ['(SELECT Id)'], undefined, 3)
+        );
+        await assert.rejects(
+            OrgUtils.getSampleRecords('Account', ['Name'], 'Name; DROP', 3)
+        );
+        assert.equal(stubConnection.query.callCount, 0);
+    });
+
     function stubWorkspaceContextConnection(): sinon.SinonStubbedInstance<
         Connection<any>
     > {
@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { StaticResourceMetadata } from '../../../utils/staticResourceMetadata';
+import { LandingPageCommand } from '../../../commands/wizard/landingPageCommand';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('Static Resource Metadata Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+    let staticResourcesPath: string;
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        staticResourcesPath = dirManager.projectDir;
+    });
+
+    afterEach(async function () {
+        await dirManager.removeDir();
+    });
+
+    function writeFile(filename: string, content: string) {
+        fs.writeFileSync(path.join(staticResourcesPath, filename), content);
+    }
+
+    function readFile(filename: string): string {
+        return fs.readFileSync(
+            path.join(staticResourcesPath, filename),
+            'utf8'
+        );
+    }
+
+    test('Generates the json static resource metadata by default', () => {
+        const xml = StaticResourceMetadata.generate();
+        assert.equal(xml, LandingPageCommand.LANDING_PAGE_METADATA_XML);
+        assert.deepEqual(StaticResourceMetadata.parse(xml), {
+            contentType: 'application/json',
+            cacheControl: 'Private',
+            description: undefined
+        });
+    });
+
+    test('Generated description is escaped', () => {
+        const xml = StaticResourceMetadata.generate({
+            cacheControl: 'Public',
+            description: 'Sales & <Service>'
+        });
+        assert.ok(
+            xml.includes(
+                '<description>Sales &amp; &lt;Service&gt;</description>'
+            )
+        );
+        assert.deepEqual(StaticResourceMetadata.parse(xml), {
+            contentType: 'application/json',
+            cacheControl: 'Public',
+            description: 'Sales & <Service>'
+        });
+    });
+
+    test('Parsing other content than a static resource returns undefined', () => {
+        assert.equal(StaticResourceMetadata.parse('not xml'), undefined);
+    });
+
+    test('Existing metadata is not overwritten', async () => {
+        writeFile('landing_page.resource-meta.xml', 'custom');
+        assert.equal(
+            await StaticResourceMetadata.ensureExists(
+                staticResourcesPath,
+                'landing_page'
+            ),
+            false
+        );
+        assert.equal(readFile('landing_page.resource-meta.xml'), 'custom');
+    });
+
+    test('Writing keeps the cache control and description', async () => {
+        writeFile(
+            'landing_page.resource-meta.xml',
+            StaticResourceMetadata.generate({
+                contentType: 'text/plain',
+                cacheControl: 'Public',
+                description: 'Sales'
+            })
+        );
+        await StaticResourceMetadata.write(staticResourcesPath, 'landing_page');
+        assert.equal(
+            readFile('landing_page.resource-meta.xml'),
+            StaticResourceMetadata.generate({
+                cacheControl: 'Public',
+                description: 'Sales'
+            })
+        );
+    });
+
+    test('Repair generates, fixes and reports orphaned metadata', async () => {
+        const validXml = StaticResourceMetadata.generate();
+        writeFile('landing_page.json', '{}');
+        writeFile('landing_page.resource-meta.xml', validXml);
+        writeFile('landing_page_sales.json', '{}');
+        writeFile('landing_page_service.json', '{}');
+        writeFile('landing_page_service.resource-meta.xml', 'corrupt');
+        writeFile('landing_page_old.resource-meta.xml', validXml);
+
+        const overwritten: string[] = [];
+        const repair = await StaticResourceMetadata.repair(
+            staticResourcesPath,
+            [
+                'landing_page',
+                'landing_page_sales',
+                'landing_page_service',
+                'landing_page_old',
+                'landing_page_missing'
+            ],
+            async (landingPageName) => {
+                // the metadata is not rewritten yet
+                assert.equal(
+                    readFile(`${landingPageName}.resource-meta.xml`),
+                    'corrupt'
+                );
+                overwritten.push(landingPageName);
+            }
+        );
+
+        assert.deepEqual(repair, {
+            generated: ['landing_page_sales'],
+            fixed: ['landing_page_service'],
+            orphaned: ['landing_page_old']
+        });
+        assert.deepStrictEqual(overwritten, ['landing_page_service']);
+        assert.equal(
+            readFile('landing_page_sales.resource-meta.xml'),
+            validXml
+        );
+        assert.equal(
+            readFile('landing_page_service.resource-meta.xml'),
+            validXml
+        );
+        assert.equal(readFile('landing_page_old.resource-meta.xml'), validXml);
+    });
+});
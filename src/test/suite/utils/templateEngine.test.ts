@@ -0,0 +1,117 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import {
+    TemplateContext,
+    TemplateEngine,
+    TemplateError,
+    TemplateEscaping
+} from '../../../utils/templateEngine';
+
+suite('Template Engine Test Suite', () => {
+    function render(
+        template: string,
+        context: TemplateContext,
+        escaping: TemplateEscaping = 'raw'
+    ): string {
+        return TemplateEngine.render(template, context, {
+            name: 'test.html',
+            escaping
+        });
+    }
+
+    test('Loops leave no blank lines', () => {
+        const template = [
+            'return [',
+            '{% each fields as field %}',
+            '  {% field.importName %}{% if !@last %},{% endif %}',
+            '{% endeach %}',
+            '];',
+            ''
+        ].join('\n');
+
+        assert.equal(
+            render(template, {
+                fields: [
+                    { importName: 'NAME_FIELD' },
+                    { importName: 'PHONE_FIELD' }
+                ]
+            }),
+            'return [\n  NAME_FIELD,\n  PHONE_FIELD\n];\n'
+        );
+        assert.equal(render(template, { fields: [] }), 'return [\n];\n');
+    });
+
+    test('Conditionals render their else branch', () => {
+        const template = [
+            '{% if hasLookups %}',
+            'lookups',
+            '{% else %}',
+            'no lookups',
+            '{% endif %}',
+            ''
+        ].join('\n');
+
+        assert.equal(render(template, { hasLookups: true }), 'lookups\n');
+        assert.equal(render(template, { hasLookups: false }), 'no lookups\n');
+        // empty lists are false
+        assert.equal(render(template, { hasLookups: [] }), 'no lookups\n');
+    });
+
+    test('Values are escaped for the generated file', () => {
+        const context = { label: `Sales & "Service" <'s>` };
+
+        assert.equal(
+            render('{% label %}', context, 'html'),
+            'Sales &amp; &quot;Service&quot; &lt;&apos;s&gt;'
+        );
+        assert.equal(
+            render('"{% label %}"', context, 'js'),
+            `"Sales & \\"Service\\" <\\'s>"`
+        );
+        assert.equal(
+            render('{% label | raw %}', context, 'html'),
+            `Sales & "Service" <'s>`
+        );
+        assert.equal(
+            TemplateEngine.getEscaping('editRecord.js-meta.xml'),
+            'xml'
+        );
+    });
+
+    test('Every legacy placeholder is substituted as is', () => {
+        assert.equal(
+            render('///TEMPLATE_FIELDS/// and ///TEMPLATE_FIELDS///', {
+                ['TEMPLATE_FIELDS']: '<a>'
+            }),
+            '<a> and <a>'
+        );
+    });
+
+    test('Unresolved names and unclosed blocks are errors', () => {
+        assert.throws(
+            () => render('line\n{% missing %}', {}),
+            (err: Error) =>
+                err instanceof TemplateError &&
+                err.message === "test.html:2: 'missing' is not defined."
+        );
+        assert.throws(
+            () => render('{% field.label %}', { field: {} }),
+            TemplateError
+        );
+        assert.throws(
+            () => render('///TEMPLATE_MISSING///', {}),
+            TemplateError
+        );
+        assert.throws(
+            () => render('{% each fields as field %}', { fields: [] }),
+            /The each tag is not closed/
+        );
+        assert.throws(() => render('{% endif %}', {}), TemplateError);
+    });
+});
@@ -7,6 +7,7 @@
 
 import * as assert from 'assert';
 import { UEMBuilder } from '../../../utils/uemBuilder';
+import { UEMValidator } from '../../../utils/uemValidator';
 import { Field } from '../../../utils/orgUtils';
 
 suite('UEM Builder Test Suite', () => {
@@ -61,7 +62,7 @@ suite('UEM Builder Test Suite', () => {
                 .components[0];
         const recordListUEM = recordListCard.regions.components.components[0];
         // ensure we added a card with a list component
-        assert.equal(recordListUEM.definition, 'mcf/list');
+        assert.strictEqual(recordListUEM.definition, 'mcf/list');
         assert.equal(recordListUEM.name, 'someobject_list');
         assert.equal(recordListUEM.label, 'LabelPlural');
         assert.equal(recordListUEM.properties.size, 3);
@@ -82,4 +83,290 @@ suite('UEM Builder Test Suite', () => {
         assert.equal(rowMap.name, 'someobject_row');
         assert.equal(rowMap.label, 'SomeObject Row');
     });
+
+    test('Record List card uses order by, size and swipe actions', async () => {
+        const builder = new UEMBuilder();
+
+        builder.addRecordListCard(
+            'Account',
+            'Accounts',
+            [{ apiName: 'Name', label: 'Name', type: 'string' }],
+            'CreatedDate',
+            false,
+            8,
+            ['Account.edit']
+        );
+        const json = builder.build();
+
+        const recordListUEM =
+            json.view.regions.components.components[0].regions.components
+                .components[0].regions.components.components[0];
+        assert.strictEqual(recordListUEM.definition, 'mcf/list');
+        assert.equal(recordListUEM.properties.size, 8);
+        assert.equal(recordListUEM.properties.orderBy[0].CreatedDate, 'DESC');
+        assert.deepStrictEqual(recordListUEM.properties.swipeActions, [
+            'Account.edit'
+        ]);
+    });
+
+    test('Timed List card is built correctly', async () => {
+        const builder = new UEMBuilder();
+
+        const startField: Field = {
+            apiName: 'SchedStartTime',
+            label: 'Scheduled Start',
+            type: 'datetime'
+        };
+        const endField: Field = {
+            apiName: 'SchedEndTime',
+            label: 'Scheduled End',
+            type: 'datetime'
+        };
+        const fieldsToDisplay: Field[] = [
+            {
+                apiName: 'AppointmentNumber',
+                label: 'Appointment Number',
+                type: 'string'
+            },
+            {
+                apiName: 'Subject',
+                label: 'Subject',
+                type: 'textarea'
+            }
+        ];
+        builder.addTimedListCard(
+            'ServiceAppointment',
+            'Service Appointments',
+            startField,
+            endField,
+            fieldsToDisplay
+        );
+        const json = builder.build();
+
+        const timedListCard =
+            json.view.regions.components.components[0].regions.components
+                .components[0];
+        const timedListUEM = timedListCard.regions.components.components[0];
+        // ensure we added a card with a timed list component
+        assert.strictEqual(timedListUEM.definition, 'mcf/timedList');
+        assert.equal(timedListUEM.name, 'serviceappointment_timed_list');
+        assert.equal(timedListUEM.label, 'Service Appointments');
+        assert.equal(timedListUEM.properties.size, 5);
+        assert.equal(
+            timedListUEM.properties.objectApiName,
+            'ServiceAppointment'
+        );
+        assert.equal(timedListUEM.properties.startTimeField, 'SchedStartTime');
+        assert.equal(timedListUEM.properties.endTimeField, 'SchedEndTime');
+        assert.equal(timedListUEM.properties.orderBy[0].SchedStartTime, 'ASC');
+
+        const fields = timedListUEM.properties.fields;
+        assert.equal(fields.AppointmentNumber, 'StringValue');
+        assert.equal(fields.Subject, 'TextAreaValue');
+        assert.equal(fields.SchedStartTime, 'DateTimeValue');
+        assert.equal(fields.SchedEndTime, 'DateTimeValue');
+
+        const fieldMap = timedListUEM.properties.fieldMap;
+        assert.equal(fieldMap.mainField, 'AppointmentNumber');
+        assert.equal(fieldMap.subField1, 'Subject');
+        assert.equal(fieldMap.subField2, undefined);
+
+        const rowMap = timedListUEM.regions.components.components[0];
+        assert.equal(rowMap.definition, 'mcf/timedRecordRow');
+        assert.equal(rowMap.name, 'serviceappointment_timed_row');
+    });
+
+    test('Existing landing page is loaded with its cards and unknown components', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .build();
+        uem.id = 'custom-id';
+        const unknownComponent = JSON.parse(
+            '{ "definition": "mcf/custom", "name": "custom", "properties": { "Foo": 1 }, "regions": {} }'
+        );
+        uem.view.regions.components.components.push(unknownComponent);
+
+        const builder = UEMBuilder.fromJson(JSON.stringify(uem));
+
+        assert.equal(builder.getCards().length, 2);
+        assert.deepStrictEqual(builder.build(), uem);
+    });
+
+    test('Landing page without a container of cards cannot be loaded', async () => {
+        assert.throws(() => UEMBuilder.fromJson('{ "view": {} }'));
+    });
+
+    test('Cards can be inserted, moved and removed', async () => {
+        const accounts = new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .getCards()[0];
+        const builder = new UEMBuilder()
+            .addGlobalActionCard()
+            .insertCard(accounts, 0);
+
+        const names = () => builder.getCards().map((card) => card.name);
+        assert.deepStrictEqual(names(), ['Accounts', 'global_actions']);
+
+        builder.moveCard(0, 1);
+        assert.deepStrictEqual(names(), ['global_actions', 'Accounts']);
+
+        builder.removeCard(0);
+        assert.deepStrictEqual(names(), ['Accounts']);
+
+        assert.throws(() => builder.removeCard(1));
+        assert.throws(() => builder.insertCard(accounts, 3));
+    });
+
+    test('Template cards are merged into the landing page', async () => {
+        const nameField: Field = {
+            apiName: 'Name',
+            label: 'Name',
+            type: 'string'
+        };
+        const builder = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [nameField])
+            .addRecordListCard('Contact', 'Contacts', [nameField]);
+        const templateCards = new UEMBuilder()
+            .addRecordListCard('Case', 'Cases', [nameField])
+            .addRecordListCard('Lead', 'Leads', [nameField])
+            .getCards();
+
+        builder.mergeCards(templateCards, {
+            keep: [0, 1],
+            replace: [{ index: 1, templateIndex: 0 }],
+            add: [1]
+        });
+
+        assert.deepStrictEqual(
+            builder.getCards().map((card) => UEMBuilder.getCardLabel(card)),
+            ['Global Actions', 'Cases', 'Leads']
+        );
+        assert.notStrictEqual(builder.getCards()[1], templateCards[0]);
+        assert.throws(() =>
+            builder.mergeCards(templateCards, {
+                keep: [],
+                replace: [],
+                add: [2]
+            })
+        );
+    });
+
+    test('Template cards merged twice get unique names', async () => {
+        const nameField: Field = {
+            apiName: 'Name',
+            label: 'Name',
+            type: 'string'
+        };
+        const builder = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [nameField]);
+        const templateCards = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [nameField])
+            .getCards();
+
+        builder.mergeCards(templateCards, {
+            keep: [0, 1],
+            replace: [],
+            add: [0, 1]
+        });
+
+        const cards = builder.getCards();
+        assert.deepStrictEqual(
+            cards.map((card) => card.name),
+            ['global_actions', 'Accounts', 'global_actions_2', 'Accounts_2']
+        );
+        assert.equal(
+            cards[3].regions.components.components[0].name,
+            'account_list_2'
+        );
+        assert.deepStrictEqual(UEMValidator.validate(builder.build()), []);
+        assert.equal(templateCards[0].name, 'global_actions');
+    });
+
+    test('Components added twice get unique names', async () => {
+        const fields: Field[] = [
+            { apiName: 'Name', label: 'Name', type: 'string' }
+        ];
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', fields)
+            .addRecordListCard('Account', 'Accounts', fields)
+            .addTimedListCard(
+                'Account',
+                'Accounts',
+                { apiName: 'StartDate', label: 'Start', type: 'datetime' },
+                { apiName: 'EndDate', label: 'End', type: 'datetime' },
+                fields
+            )
+            .build();
+
+        const cards =
+            uem.view.regions.components.components[0].regions.components
+                .components;
+        assert.deepStrictEqual(
+            cards.map((card: any) => card.name),
+            [
+                'global_actions',
+                'global_actions_2',
+                'Accounts',
+                'Accounts_2',
+                'Accounts_3'
+            ]
+        );
+        assert.equal(
+            cards[3].regions.components.components[0].name,
+            'account_list_2'
+        );
+        assert.deepStrictEqual(UEMValidator.validate(uem), []);
+    });
+
+    test('Serialized landing page round-trips unchanged', async () => {
+        const json = new UEMBuilder().addGlobalActionCard().toJson();
+        assert.equal(UEMBuilder.fromJson(json).toJson(), json);
+    });
+
+    test('Landing page settings are configurable', async () => {
+        const uem = new UEMBuilder({
+            id: 'custom-id',
+            apiName: 'landing_page_sales',
+            target: 'custom_target',
+            backgroundColor: '#FFFFFF'
+        }).build();
+
+        assert.equal(uem.id, 'custom-id');
+        assert.equal(uem.apiName, 'landing_page_sales');
+        assert.equal(uem.target, 'custom_target');
+        assert.equal(
+            uem.view.regions.components.components[0].properties
+                .backgroundColor,
+            '#FFFFFF'
+        );
+    });
+
+    test('Each landing page gets its own id', async () => {
+        const uem = new UEMBuilder().build();
+        assert.equal(uem.apiName, UEMBuilder.DEFAULT_API_NAME);
+        assert.equal(uem.target, UEMBuilder.DEFAULT_TARGET);
+        assert.notEqual(uem.id, new UEMBuilder().build().id);
+    });
+
+    test('Api names are derived from personas', async () => {
+        assert.equal(UEMBuilder.toApiName(''), 'landing_page');
+        assert.equal(
+            UEMBuilder.toApiName(' Field Sales! '),
+            'landing_page_field_sales'
+        );
+        assert.ok(UEMBuilder.isValidApiName('landing_page_field_sales'));
+        assert.equal(UEMBuilder.isValidApiName('landing__page'), false);
+        assert.equal(UEMBuilder.isValidApiName('landing_page_'), false);
+        assert.equal(UEMBuilder.isValidApiName('1_landing_page'), false);
+    });
 });
@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import { afterEach, beforeEach } from 'mocha';
+import { OrgUtils } from '../../../utils/orgUtils';
+import { UEMBuilder } from '../../../utils/uemBuilder';
+import { UEMOrgValidator } from '../../../utils/uemOrgValidator';
+
+suite('UEM Org Validator Test Suite', () => {
+    const LIST_PATH = [
+        'view',
+        'regions',
+        'components',
+        'components',
+        0,
+        'regions',
+        'components',
+        'components',
+        0,
+        'regions',
+        'components',
+        'components',
+        0
+    ];
+
+    const accountFields = [
+        { apiName: 'Name', label: 'Name', type: 'string' },
+        { apiName: 'Phone', label: 'Phone', type: 'phone' },
+        { apiName: 'CreatedDate', label: 'Created Date', type: 'datetime' }
+    ];
+
+    let getFieldsStub: sinon.SinonStub;
+
+    beforeEach(function () {
+        sinon.stub(OrgUtils, 'getSobjects').resolves([
+            {
+                apiName: 'Account',
+                label: 'Account',
+                labelPlural: 'Accounts'
+            }
+        ]);
+        getFieldsStub = sinon
+            .stub(OrgUtils, 'getFieldsForSObject')
+            .resolves(accountFields);
+    });
+
+    afterEach(function () {
+        sinon.restore();
+    });
+
+    test('Landing page matching the org has no problems', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', accountFields)
+            .addRecordListCard('Account', 'Accounts', accountFields)
+            .build();
+
+        const problems = await UEMOrgValidator.validate(uem);
+        assert.deepStrictEqual(problems, []);
+        // each sObject is described only once
+        assert.equal(getFieldsStub.callCount, 1);
+    });
+
+    test('Landing page without lists does not query the org', async () => {
+        const uem = new UEMBuilder().addGlobalActionCard().build();
+
+        const problems = await UEMOrgValidator.validate(uem);
+        assert.deepStrictEqual(problems, []);
+        assert.equal(getFieldsStub.callCount, 0);
+    });
+
+    test('Unknown sObject is reported', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard('Foo__c', 'Foos', accountFields)
+            .build();
+
+        const problems = await UEMOrgValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, [
+            ...LIST_PATH,
+            'objectApiName'
+        ]);
+        assert.equal(getFieldsStub.callCount, 0);
+    });
+
+    test('Unknown fields are reported on their keys', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard(
+                'Account',
+                'Accounts',
+                // the builder keeps the first three fields only
+                [
+                    accountFields[0],
+                    { apiName: 'Foo', label: 'Foo', type: 'string' }
+                ],
+                'Foo'
+            )
+            .build();
+
+        const problems = await UEMOrgValidator.validate(uem);
+        assert.deepStrictEqual(
+            problems.map((problem) => [problem.path, problem.onKey]),
+            [
+                [[...LIST_PATH, 'properties', 'fields', 'Foo'], true],
+                [
+                    [...LIST_PATH, 'properties', 'fieldMap', 'subField1'],
+                    undefined
+                ],
+                [[...LIST_PATH, 'properties', 'orderBy', 0, 'Foo'], true]
+            ]
+        );
+    });
+
+    test('Mismatched value type is reported with the expected one', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', [
+                accountFields[0],
+                {
+                    apiName: 'CreatedDate',
+                    label: 'Created Date',
+                    type: 'string'
+                }
+            ])
+            .build();
+
+        const problems = await UEMOrgValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, [
+            ...LIST_PATH,
+            'properties',
+            'fields',
+            'CreatedDate'
+        ]);
+        assert.equal(problems[0].expectedValueType, 'DateTimeValue');
+    });
+});
@@ -7,6 +7,7 @@
 
 import * as assert from 'assert';
 import { UEMParser } from '../../../utils/uemParser';
+import { UEMBuilder } from '../../../utils/uemBuilder';
 
 suite('UEM Parser Test Suite', () => {
     test('Empty object returns empty array', async () => {
@@ -99,4 +100,122 @@ suite('UEM Parser Test Suite', () => {
         assert.equal(sObjects[1], 'timed');
         assert.equal(sObjects[2], 'generic');
     });
+
+    test('Cards are found in display order', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .build();
+
+        const cards = UEMParser.findCards(uem);
+        assert.equal(cards.length, 2);
+        assert.equal(cards[0].name, 'global_actions');
+        assert.equal(cards[1].name, 'Accounts');
+    });
+
+    test('Cards of a document without a container are empty', async () => {
+        const cards = UEMParser.findCards({
+            view: {
+                definition: 'generated/uem_output',
+                name: 'view',
+                properties: {},
+                regions: { components: { name: 'components', components: [] } }
+            },
+            target: 'mcf__native',
+            apiName: 'landing_page',
+            id: 'id'
+        });
+        assert.equal(cards.length, 0);
+    });
+
+    test('Parsed cards report the object, fields, order-by and size of their list', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addTimedListCard(
+                'Event',
+                'Events',
+                { apiName: 'StartDateTime', label: 'Start', type: 'datetime' },
+                { apiName: 'EndDateTime', label: 'End', type: 'datetime' },
+                [{ apiName: 'Subject', label: 'Subject', type: 'string' }],
+                'StartDateTime',
+                false,
+                4
+            )
+            .build();
+
+        const result = UEMParser.parse(uem);
+
+        assert.deepStrictEqual(result.sObjects, ['Event']);
+        assert.equal(result.cards.length, 2);
+        assert.equal(result.cards[0].definition, 'mcf/card');
+        assert.equal(result.cards[0].objectApiName, undefined);
+        assert.equal(
+            result.cards[0].components[0].definition,
+            'mcfp/actionList'
+        );
+
+        const card = result.cards[1];
+        assert.equal(card.label, 'Events');
+        assert.equal(card.objectApiName, 'Event');
+        assert.deepStrictEqual(
+            card.fields.map((field) => [field.apiName, field.valueType]),
+            [
+                ['Subject', 'StringValue'],
+                ['StartDateTime', 'DateTimeValue'],
+                ['EndDateTime', 'DateTimeValue']
+            ]
+        );
+        assert.deepStrictEqual(
+            card.orderBy.map((ordering) => [
+                ordering.field,
+                ordering.direction
+            ]),
+            [['StartDateTime', 'DESC']]
+        );
+        assert.equal(card.size, 4);
+        assert.equal(card.components[0].definition, 'mcf/timedList');
+        assert.equal(card.location, undefined);
+    });
+
+    test('Parsed text reports the locations of the values', async () => {
+        const uem = new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .build();
+        const text = JSON.stringify(uem, null, 2);
+
+        const result = UEMParser.parseText(text);
+
+        assert.ok(result);
+        const card = result.cards[0];
+        assert.ok(card.location);
+        assert.equal(
+            JSON.parse(
+                text.substring(
+                    card.location.offset,
+                    card.location.offset + card.location.length
+                )
+            ).name,
+            'Accounts'
+        );
+        const field = card.fields[0];
+        assert.ok(field.location);
+        assert.equal(
+            text.substring(
+                field.location.offset,
+                field.location.offset + field.location.length
+            ),
+            '"StringValue"'
+        );
+    });
+
+    test('Invalid text cannot be parsed', async () => {
+        assert.equal(UEMParser.parseText(''), undefined);
+        // recovered from by the parser, but still not valid json
+        assert.equal(UEMParser.parseText('{ "view": { } '), undefined);
+        assert.equal(UEMParser.parseText('{ "view": {}, }'), undefined);
+    });
 });
@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import { UEMValidator } from '../../../utils/uemValidator';
+import { UEMBuilder } from '../../../utils/uemBuilder';
+import { UEMDocument, UEMList } from '../../../types';
+
+suite('UEM Validator Test Suite', () => {
+    const LIST_PATH = [
+        'view',
+        'regions',
+        'components',
+        'components',
+        0,
+        'regions',
+        'components',
+        'components',
+        0,
+        'regions',
+        'components',
+        'components',
+        0
+    ];
+
+    function buildRecordListUEM(): UEMDocument {
+        return new UEMBuilder()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' },
+                { apiName: 'Phone', label: 'Phone', type: 'phone' }
+            ])
+            .build();
+    }
+
+    function getList(uem: UEMDocument): UEMList {
+        return uem.view.regions.components.components[0].regions.components
+            .components[0].regions.components.components[0] as UEMList;
+    }
+
+    test('UEMBuilder output is valid', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addTimedListCard(
+                'Event',
+                'Events',
+                { apiName: 'StartDateTime', label: 'Start', type: 'datetime' },
+                { apiName: 'EndDateTime', label: 'End', type: 'datetime' },
+                [{ apiName: 'Subject', label: 'Subject', type: 'string' }]
+            )
+            .build();
+
+        assert.deepStrictEqual(UEMValidator.validate(uem), []);
+        assert.deepStrictEqual(UEMValidator.validate(buildRecordListUEM()), []);
+    });
+
+    test('Landing page that is not an object is reported', async () => {
+        const problems = UEMValidator.validate([]);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, []);
+    });
+
+    test('Unknown definitions are reported as warnings', async () => {
+        const uem = buildRecordListUEM();
+        (getList(uem) as { definition: string }).definition = 'mcf/lists';
+
+        const problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].severity, 'warning');
+        assert.deepStrictEqual(problems[0].path, [...LIST_PATH, 'definition']);
+    });
+
+    test('Duplicate component names are reported', async () => {
+        const uem = buildRecordListUEM();
+        getList(uem).name = 'container';
+
+        const problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.equal(problems[0].severity, 'error');
+        assert.deepStrictEqual(problems[0].path, [...LIST_PATH, 'name']);
+    });
+
+    test('fieldMap entries missing from fields are reported', async () => {
+        const uem = buildRecordListUEM();
+        delete getList(uem).properties.fields['Phone'];
+
+        const problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, [
+            ...LIST_PATH,
+            'properties',
+            'fieldMap',
+            'subField1'
+        ]);
+    });
+
+    test('Missing objectApiName is reported', async () => {
+        const uem = buildRecordListUEM();
+        getList(uem).properties.objectApiName = '';
+
+        const problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, [...LIST_PATH, 'properties']);
+    });
+
+    test('Invalid orderBy shapes are reported', async () => {
+        const uem = buildRecordListUEM();
+        const properties = getList(uem).properties as { orderBy: unknown };
+
+        properties.orderBy = JSON.parse('{ "Name": "ASC" }');
+        let problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 1);
+        assert.deepStrictEqual(problems[0].path, [
+            ...LIST_PATH,
+            'properties',
+            'orderBy'
+        ]);
+
+        properties.orderBy = JSON.parse(
+            '[{ "Name": "ASC" }, { "Phone": "UP" }, {}]'
+        );
+        problems = UEMValidator.validate(uem);
+        assert.equal(problems.length, 2);
+        assert.deepStrictEqual(problems[0].path, [
+            ...LIST_PATH,
+            'properties',
+            'orderBy',
+            1
+        ]);
+        assert.deepStrictEqual(problems[1].path, [
+            ...LIST_PATH,
+            'properties',
+            'orderBy',
+            2
+        ]);
+    });
+
+    test('Size out of range is reported', async () => {
+        const uem = buildRecordListUEM();
+        const properties = getList(uem).properties;
+
+        for (const size of [2, 9, 4.5]) {
+            properties.size = size;
+            const problems = UEMValidator.validate(uem);
+            assert.equal(problems.length, 1);
+            assert.deepStrictEqual(problems[0].path, [
+                ...LIST_PATH,
+                'properties',
+                'size'
+            ]);
+        }
+
+        properties.size = UEMValidator.MAX_LIST_SIZE;
+        assert.deepStrictEqual(UEMValidator.validate(uem), []);
+    });
+});
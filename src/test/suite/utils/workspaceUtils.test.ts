@@ -110,6 +110,28 @@ suite('Workspace Test Suite', () => {
         assert.equal(exists, true);
     });
 
+    test('Quick action names are read from the quick actions folder', async () => {
+        assert.deepStrictEqual(WorkspaceUtils.getQuickActionNames(), []);
+
+        const quickActionsPath = path.join(
+            tempProjectDirManager.projectDir,
+            WorkspaceUtils.QUICK_ACTIONS_PATH
+        );
+        await mkdir(quickActionsPath, { recursive: true });
+        for (const filename of [
+            'Account.view.quickAction-meta.xml',
+            'Account.edit.quickAction-meta.xml',
+            'readme.txt'
+        ]) {
+            fs.writeFileSync(path.join(quickActionsPath, filename), '');
+        }
+
+        assert.deepStrictEqual(WorkspaceUtils.getQuickActionNames(), [
+            'Account.edit',
+            'Account.view'
+        ]);
+    });
+
     test('Sfdx project is opened', () => {
         let opened = WorkspaceUtils.isSfdxProjectOpened();
         assert.equal(opened, false);
@@ -0,0 +1,113 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach } from 'mocha';
+import { TreeItemCollapsibleState } from 'vscode';
+import { LandingPageTreeDataProvider } from '../../../views/landingPageTreeView';
+import { UEMBuilder } from '../../../utils/uemBuilder';
+import { WorkspaceUtils } from '../../../utils/workspaceUtils';
+import { TempProjectDirManager } from '../../TestHelper';
+
+suite('Landing Page Tree View Test Suite', () => {
+    let dirManager: TempProjectDirManager;
+
+    beforeEach(async function () {
+        dirManager = await TempProjectDirManager.createTempProjectDir();
+        sinon
+            .stub(WorkspaceUtils, 'getWorkspaceDir')
+            .returns(dirManager.projectDir);
+    });
+
+    afterEach(async function () {
+        sinon.restore();
+        await dirManager.removeDir();
+    });
+
+    function writeLandingPage(content: string) {
+        const landingPagePath =
+            LandingPageTreeDataProvider.getLandingPagePath();
+        fs.mkdirSync(path.dirname(landingPagePath), { recursive: true });
+        fs.writeFileSync(landingPagePath, content, 'utf8');
+    }
+
+    test('No landing page has no cards', async () => {
+        const provider = new LandingPageTreeDataProvider();
+        assert.deepStrictEqual(await provider.getChildren(), []);
+    });
+
+    test('Cards, lists and fields are shown hierarchically', async () => {
+        const uem = new UEMBuilder()
+            .addGlobalActionCard()
+            .addRecordListCard('Account', 'Accounts', [
+                { apiName: 'Name', label: 'Name', type: 'string' }
+            ])
+            .build();
+        writeLandingPage(JSON.stringify(uem, null, 2));
+        const provider = new LandingPageTreeDataProvider();
+
+        const cards = await provider.getChildren();
+        assert.equal(cards.length, 2);
+        assert.deepStrictEqual(
+            cards.map((card) =>
+                card.kind === 'card' ? [card.containerIndex, card.index] : []
+            ),
+            [
+                [0, 0],
+                [0, 1]
+            ]
+        );
+        const cardItem = provider.getTreeItem(cards[1]);
+        assert.equal(cardItem.label, 'Accounts');
+        assert.equal(cardItem.contextValue, 'card sobject');
+        assert.equal(
+            cardItem.collapsibleState,
+            TreeItemCollapsibleState.Expanded
+        );
+        assert.equal(provider.getTreeItem(cards[0]).contextValue, 'card');
+
+        const lists = await provider.getChildren(cards[1]);
+        assert.equal(lists.length, 1);
+        assert.equal(
+            provider.getTreeItem(lists[0]).contextValue,
+            'component sobject'
+        );
+
+        const listChildren = await provider.getChildren(lists[0]);
+        assert.deepStrictEqual(
+            listChildren.map((child) => child.kind),
+            ['component', 'field']
+        );
+        const fieldItem = provider.getTreeItem(listChildren[1]);
+        assert.equal(fieldItem.label, 'Name');
+        assert.equal(fieldItem.description, 'StringValue');
+        assert.ok(fieldItem.command);
+    });
+
+    test('Invalid landing page has no cards', async () => {
+        writeLandingPage('');
+        const provider = new LandingPageTreeDataProvider();
+        assert.deepStrictEqual(await provider.getChildren(), []);
+    });
+
+    test('Open in Org only runs valid sObject api names', async () => {
+        assert.equal(
+            LandingPageTreeDataProvider.getOpenOrgListViewCommand(
+                'Work_Order__c'
+            ),
+            "sfdx org open -p '/lightning/o/Work_Order__c/list'"
+        );
+        assert.throws(() =>
+            LandingPageTreeDataProvider.getOpenOrgListViewCommand(
+                "Account'; rm -rf ~; echo '"
+            )
+        );
+    });
+});
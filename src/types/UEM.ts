@@ -0,0 +1,131 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+/**
+ * Typed model of the UEM (landing page) document stored in landing_page.json. Every
+ * component is discriminated on its `definition`, so narrowing on it gives access to
+ * the matching `properties` and `regions`.
+ */
+
+export type UEMOrderDirection = 'ASC' | 'DESC';
+
+// ie: [{ "Name": "ASC" }]
+export type UEMOrderBy = { [fieldApiName: string]: UEMOrderDirection }[];
+
+// ie: { "Name": "StringValue", "CreatedDate": "DateTimeValue" }
+export type UEMFields = { [fieldApiName: string]: string };
+
+export type UEMFieldMap = {
+    mainField: string;
+    subField1?: string;
+    subField2?: string;
+};
+
+export type UEMRegion<T> = {
+    name: string;
+    components: T[];
+};
+
+export type UEMRegions<T> = {
+    components: UEMRegion<T>;
+};
+
+export type UEMEmptyRegions = { [name: string]: never };
+
+interface UEMComponentBase<Definition extends string, Properties, Regions> {
+    definition: Definition;
+    name: string;
+    label?: string;
+    properties: Properties;
+    regions: Regions;
+}
+
+export type UEMListProperties = {
+    size: number;
+    objectApiName: string;
+    orderBy: UEMOrderBy;
+    fields: UEMFields;
+    fieldMap: UEMFieldMap;
+    // api names of the quick actions offered when swiping a row, ie: "Account.edit"
+    swipeActions?: string[];
+};
+
+export interface UEMRecordRow
+    extends UEMComponentBase<'mcf/recordRow', {}, UEMEmptyRegions> {}
+
+export interface UEMList
+    extends UEMComponentBase<
+        'mcf/list',
+        UEMListProperties,
+        UEMRegions<UEMRecordRow>
+    > {
+    label: string;
+}
+
+export type UEMTimedListProperties = UEMListProperties & {
+    startTimeField: string;
+    endTimeField: string;
+};
+
+export interface UEMTimedRecordRow
+    extends UEMComponentBase<'mcf/timedRecordRow', {}, UEMEmptyRegions> {}
+
+export interface UEMTimedList
+    extends UEMComponentBase<
+        'mcf/timedList',
+        UEMTimedListProperties,
+        UEMRegions<UEMTimedRecordRow>
+    > {
+    label: string;
+}
+
+export interface UEMActionList
+    extends UEMComponentBase<'mcfp/actionList', {}, UEMEmptyRegions> {
+    label: string;
+}
+
+export type UEMCardContent = UEMList | UEMTimedList | UEMActionList;
+
+export interface UEMCard
+    extends UEMComponentBase<
+        'mcf/card',
+        { label: string },
+        UEMRegions<UEMCardContent>
+    > {}
+
+export interface UEMContainer
+    extends UEMComponentBase<
+        'mcf/container',
+        { backgroundColor?: string },
+        UEMRegions<UEMCard>
+    > {}
+
+export interface UEMView
+    extends UEMComponentBase<
+        'generated/uem_output',
+        {},
+        UEMRegions<UEMContainer>
+    > {}
+
+export type UEMComponent =
+    | UEMView
+    | UEMContainer
+    | UEMCard
+    | UEMList
+    | UEMRecordRow
+    | UEMTimedList
+    | UEMTimedRecordRow
+    | UEMActionList;
+
+export type UEMDefinition = UEMComponent['definition'];
+
+export type UEMDocument = {
+    view: UEMView;
+    target: string;
+    apiName: string;
+    id: string;
+};
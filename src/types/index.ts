@@ -8,3 +8,4 @@ export * from './AuthFields';
 export * from './CoreExtensionApi';
 export * from './SingleRecordQueryOptions';
 export * from './WorkspaceContext';
+export * from './UEM';
@@ -7,11 +7,63 @@
 import * as fs from 'fs';
 import { Uri } from 'vscode';
 import * as path from 'path';
-import { CompactLayoutField } from './orgUtils';
+import { CompactLayoutField, Field } from './orgUtils';
 import { WorkspaceUtils } from './workspaceUtils';
+import { LwcTemplateLibrary } from './lwcTemplateLibrary';
+import { TemplateContext, TemplateEngine } from './templateEngine';
+import { GeneratedFileMarker } from './generatedFileMarker';
 
 type TemplateVariables = { [name: string]: string };
 
+type FormMode = 'create' | 'edit';
+
+/**
+ * The identifiers of a field in the generated javascript.
+ */
+export type FieldIdentifiers = {
+    // the import of the field schema, ie: OWNER_NAME_FIELD
+    importName: string;
+    // the property aliasing the import, ie: ownerNameField
+    fieldVariable: string;
+    // the property bound to the create form input, ie: ownerName
+    valueVariable: string;
+};
+
+/**
+ * A field of the create and edit forms, as the templates see it.
+ */
+export type TemplateField = FieldIdentifiers & {
+    apiName: string;
+    type: string;
+    required: boolean;
+    createable: boolean;
+    updateable: boolean;
+    // whether the create form input is bound to valueVariable, which starts as initialValue
+    bindValue: boolean;
+    initialValue: string;
+};
+
+/**
+ * A file CodeBuilder generates, at its path relative to the project.
+ */
+export type GeneratedFile = {
+    filePath: string;
+    content: string;
+};
+
+type TemplateImport = {
+    importName: string;
+    // the field, or a field of a related record, ie: "Owner.Name"
+    fieldPath: string;
+};
+
+type GeneratedFields = {
+    imports: TemplateImport[];
+    // the fields the view gets, with the components of compound fields
+    viewFields: TemplateImport[];
+    formFields: TemplateField[];
+};
+
 export class CodeBuilder {
     static readonly QUICK_ACTION_TEMPLATE_NAME = 'quickAction.xml';
 
@@ -31,6 +83,9 @@ export class CodeBuilder {
         'TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML';
     static readonly TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML =
         'TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML';
+    static readonly TEMPLATE_NAME_FIELD = 'TEMPLATE_NAME_FIELD';
+    static readonly TEMPLATE_NAME_FIELD_API_NAME =
+        'TEMPLATE_NAME_FIELD_API_NAME';
     static readonly TEMPLATE_OBJECT_API_NAME = 'TEMPLATE_OBJECT_API_NAME';
     static readonly TEMPLATE_VARIABLES = 'TEMPLATE_VARIABLES';
     static readonly TEMPLATE_VARIABLE_ASSIGNMENTS =
@@ -40,69 +95,144 @@ export class CodeBuilder {
     static readonly TEMPLATE_QUICK_ACTION_ICON = 'TEMPLATE_QUICK_ACTION_ICON';
     static readonly TEMPLATE_QUICK_ACTION_LABEL = 'TEMPLATE_QUICK_ACTION_LABEL';
 
+    // field types whose create form input starts empty rather than with an empty string
+    static readonly NULL_VALUE_FIELD_TYPES = [
+        'reference',
+        'date',
+        'datetime',
+        'time'
+    ];
+    // field types whose create form input keeps the default value of the field
+    static readonly DEFAULT_VALUE_FIELD_TYPES = ['picklist', 'multipicklist'];
+    // the name field of most sObjects, used when the sObject is not described
+    static readonly DEFAULT_NAME_FIELD = 'Name';
+    // members of the templates the generated properties must not shadow
+    static readonly RESERVED_IDENTIFIERS = [
+        'recordId',
+        'objectApiName',
+        'record',
+        'fields',
+        'onSuccess',
+        'dismiss'
+    ];
+
     private extensionUri: Uri;
     private objectApiName: string;
+    private templateSet: string | undefined;
+    private describedFields: Map<string, Field>;
+    // by lower case field path, since field names are case insensitive
+    private fieldIdentifiers = new Map<string, FieldIdentifiers>();
+    private usedIdentifiers = new Set<string>(CodeBuilder.RESERVED_IDENTIFIERS);
     templateVariables: TemplateVariables;
+    templateContext: TemplateContext;
     fieldNames: string[];
+    nameField: string;
+    // when set, the generated files are collected in generatedFiles rather than written
+    dryRun = false;
+    generatedFiles: GeneratedFile[] = [];
 
+    /**
+     * @param fields The describe of the sObject fields. Without it, every field of the compact layout
+     * is rendered as a plain input in the create and edit forms.
+     * @param templateSet The template set of the project templates folder to generate from, the
+     * configured one by default.
+     */
     constructor(
         extensionUri: Uri,
         objectApiName: string,
-        compactLayoutFields: CompactLayoutField[]
+        compactLayoutFields: CompactLayoutField[],
+        fields: Field[] = [],
+        templateSet: string | undefined = LwcTemplateLibrary.getTemplateSet()
     ) {
         this.extensionUri = extensionUri;
         this.objectApiName = objectApiName;
+        this.templateSet = templateSet;
+        this.describedFields = new Map(
+            fields.map((field) => [field.apiName, field])
+        );
 
         this.fieldNames = this.getFieldNames(compactLayoutFields);
-        this.templateVariables = this.generateTemplateVariables(
-            this.fieldNames
-        );
+        this.nameField = this.getNameField();
+        const generatedFields = this.generateFields(this.fieldNames);
+        this.templateVariables =
+            this.generateTemplateVariables(generatedFields);
+        this.templateContext = this.generateTemplateContext(generatedFields);
     }
 
     async generateView(): Promise<boolean> {
-        return new Promise(async (resolve) => {
+        return new Promise(async (resolve, reject) => {
             const lwcName = `view${this.objectApiName}Record`;
-            this.copyTemplateFiles(
-                this.templateVariables,
-                'viewRecord',
-                lwcName
-            );
-            this.createQuickAction(this.templateVariables, 'View', lwcName);
+            try {
+                this.copyTemplateFiles(
+                    this.templateContext,
+                    'viewRecord',
+                    lwcName
+                );
+                this.createQuickAction(this.templateContext, 'View', lwcName);
+            } catch (err) {
+                return reject(err);
+            }
             resolve(true);
         });
     }
 
     async generateEdit(): Promise<boolean> {
-        return new Promise(async (resolve) => {
+        return new Promise(async (resolve, reject) => {
             const lwcName = `edit${this.objectApiName}Record`;
-            this.copyTemplateFiles(
-                this.templateVariables,
-                'editRecord',
-                lwcName
-            );
-            this.createQuickAction(
-                this.templateVariables,
-                'Edit',
-                lwcName,
-                'editActionIcon'
-            );
+            try {
+                this.copyTemplateFiles(
+                    this.templateContext,
+                    'editRecord',
+                    lwcName
+                );
+                this.createQuickAction(
+                    this.templateContext,
+                    'Edit',
+                    lwcName,
+                    'editActionIcon'
+                );
+            } catch (err) {
+                return reject(err);
+            }
             resolve(true);
         });
     }
 
     async generateCreate(): Promise<boolean> {
-        return new Promise(async (resolve) => {
+        return new Promise(async (resolve, reject) => {
             const lwcName = `create${this.objectApiName}Record`;
-            this.copyTemplateFiles(
-                this.templateVariables,
-                'createRecord',
-                lwcName
-            );
-            this.createQuickAction(this.templateVariables, 'Create', lwcName);
+            try {
+                this.copyTemplateFiles(
+                    this.templateContext,
+                    'createRecord',
+                    lwcName
+                );
+                this.createQuickAction(this.templateContext, 'Create', lwcName);
+            } catch (err) {
+                return reject(err);
+            }
             resolve(true);
         });
     }
 
+    /**
+     * @returns the field naming the records, ie: "Name", "CaseNumber" of a Case or "Id" for sObjects
+     * without one.
+     */
+    private getNameField(): string {
+        if (this.describedFields.size === 0) {
+            return CodeBuilder.DEFAULT_NAME_FIELD;
+        }
+        for (const field of this.describedFields.values()) {
+            if (field.nameField) {
+                return field.apiName;
+            }
+        }
+        return this.describedFields.has(CodeBuilder.DEFAULT_NAME_FIELD)
+            ? CodeBuilder.DEFAULT_NAME_FIELD
+            : 'Id';
+    }
+
     private getFieldNames(compactLayoutFields: CompactLayoutField[]) {
         const fieldNames: string[] = [];
         compactLayoutFields.forEach((field) => {
@@ -114,16 +244,14 @@ export class CodeBuilder {
     }
 
     private createQuickAction(
-        templateVariables: TemplateVariables,
+        templateContext: TemplateContext,
         label: string,
         name: string,
         iconName?: string | undefined
     ) {
-        const templateFilePath = path.join(
-            WorkspaceUtils.LWC_TEMPLATE_PATH,
+        const fileContents = this.readFileContents(
             CodeBuilder.QUICK_ACTION_TEMPLATE_NAME
         );
-        const fileContents = this.readFileContents(templateFilePath);
 
         const quickActionVariables: TemplateVariables = {};
         quickActionVariables[CodeBuilder.TEMPLATE_QUICK_ACTION_LABEL] = label;
@@ -136,16 +264,21 @@ export class CodeBuilder {
         }
 
         // do substitutions
-        const newFileContents = this.replaceAllTemplateVariables(fileContents, {
-            ...templateVariables,
-            ...quickActionVariables
-        });
+        const newFileContents = this.renderTemplate(
+            fileContents,
+            {
+                ...templateContext,
+                ...quickActionVariables,
+                quickActionLabel: label,
+                lwcName: name,
+                quickActionIcon: iconName ?? ''
+            },
+            CodeBuilder.QUICK_ACTION_TEMPLATE_NAME
+        );
 
         // copy to destination directory
-        const objectApiName =
-            templateVariables[CodeBuilder.TEMPLATE_OBJECT_API_NAME];
         // file name convention example: Account.view.quickAction-meta.xml
-        const destinationFile = `${objectApiName}.${label.toLocaleLowerCase()}.quickAction-meta.xml`;
+        const destinationFile = `${this.objectApiName}.${label.toLocaleLowerCase()}.quickAction-meta.xml`;
 
         this.writeFileContents(
             WorkspaceUtils.QUICK_ACTIONS_PATH,
@@ -155,22 +288,22 @@ export class CodeBuilder {
     }
 
     private copyTemplateFiles(
-        templateVariables: TemplateVariables,
+        templateContext: TemplateContext,
         template: string,
         destinationLwc: string
     ) {
         CodeBuilder.TEMPLATE_FILE_EXTENSIONS.forEach((extension) => {
             const templateFilePath = path.join(
-                WorkspaceUtils.LWC_TEMPLATE_PATH,
                 template,
                 `${template}.${extension}`
             );
             const fileContents = this.readFileContents(templateFilePath);
 
             // do substitutions
-            const newFileContents = this.replaceAllTemplateVariables(
+            const newFileContents = this.renderTemplate(
                 fileContents,
-                templateVariables
+                templateContext,
+                templateFilePath
             );
 
             // copy to destination directory
@@ -188,27 +321,32 @@ export class CodeBuilder {
         });
     }
 
-    private replaceAllTemplateVariables(
+    /**
+     * @param templateFilePath The template, for error messages and to escape values for the file it
+     * generates.
+     */
+    private renderTemplate(
         contents: string,
-        templateVariables: TemplateVariables
-    ) {
-        var newFileContents = contents;
-        for (const key in templateVariables) {
-            if (templateVariables.hasOwnProperty(key)) {
-                const value = templateVariables[key];
-                newFileContents = newFileContents.replace(
-                    `///${key}///`,
-                    value
-                );
-            }
-        }
-        return newFileContents;
+        templateContext: TemplateContext,
+        templateFilePath: string
+    ): string {
+        return TemplateEngine.render(contents, templateContext, {
+            name: templateFilePath,
+            escaping: TemplateEngine.getEscaping(templateFilePath)
+        });
     }
 
+    /**
+     * @param filePath The path of the template file, relative to the templates folders.
+     */
     private readFileContents(filePath: string): string {
-        const extensionFilePath = Uri.joinPath(this.extensionUri, filePath);
+        const templateFilePath = LwcTemplateLibrary.resolveTemplateFile(
+            this.extensionUri,
+            filePath,
+            this.templateSet
+        );
         try {
-            return fs.readFileSync(extensionFilePath.fsPath, 'utf8');
+            return fs.readFileSync(templateFilePath, 'utf8');
         } catch (err) {
             console.log(`Could not read file ${filePath}`, err);
             return '';
@@ -220,48 +358,154 @@ export class CodeBuilder {
         filename: string,
         content: string
     ) {
-        // ensure dirPath exists
+        const file: GeneratedFile = {
+            filePath: path.join(dirPath, filename),
+            content: GeneratedFileMarker.stamp(filename, content)
+        };
+        if (this.dryRun) {
+            this.generatedFiles.push(file);
+            return;
+        }
+        CodeBuilder.writeGeneratedFile(file);
+    }
+
+    /**
+     * Writes a generated file, ie: one of a dry run the user accepted, and keeps its content as the
+     * base of a later regeneration.
+     */
+    static writeGeneratedFile(file: GeneratedFile) {
+        if (this.writeFile(file.filePath, file.content)) {
+            this.writeGeneratedBase(file);
+        }
+    }
+
+    /**
+     * Keeps the content of a generated file as the base of a later regeneration, ie: once it is
+     * merged with the edits of the file.
+     */
+    static writeGeneratedBase(file: GeneratedFile) {
+        this.writeFile(
+            GeneratedFileMarker.getBaseFilePath(file.filePath),
+            file.content
+        );
+    }
+
+    /**
+     * @returns true if the file was written.
+     */
+    private static writeFile(filePath: string, content: string): boolean {
+        // ensure the directory exists
+        const dirPath = path.dirname(filePath);
         if (!fs.existsSync(dirPath)) {
             try {
                 fs.mkdirSync(dirPath, { recursive: true });
             } catch (err) {
                 console.log(`Unable to create directory: ${dirPath}`, err);
-                return;
+                return false;
             }
         }
         // write the file
-        const filePath = path.join(dirPath, filename);
         try {
             fs.writeFileSync(filePath, content, 'utf8');
+            return true;
         } catch (err) {
             console.error(`Error writing to file ${filePath}`, err);
+            return false;
         }
     }
 
     /**
-     * Ensure all the TEMPLATE_* variables have a value.
+     * Collects the fields the templates need: the ones of the compact layout, the components of its
+     * compound fields and the name field.
      */
-    private generateTemplateVariables(fieldNames: string[]): TemplateVariables {
+    private generateFields(fieldNames: string[]): GeneratedFields {
+        const generatedFields: GeneratedFields = {
+            imports: [],
+            viewFields: [],
+            formFields: []
+        };
+        const importField = (fieldPath: string): TemplateImport => {
+            const { importName } = this.getFieldIdentifiers(fieldPath);
+            if (
+                !generatedFields.imports.some(
+                    (fieldImport) => fieldImport.importName === importName
+                )
+            ) {
+                generatedFields.imports.push({ importName, fieldPath });
+            }
+            return { importName, fieldPath };
+        };
+
+        fieldNames.forEach((field) => {
+            const fieldImport = importField(field);
+
+            // getRecord does not support compound fields, so the view lists their components
+            const componentFields = this.getComponentFields(field);
+            if (componentFields.length > 0) {
+                componentFields.forEach((component) => {
+                    generatedFields.viewFields.push(
+                        importField(component.apiName)
+                    );
+                });
+            } else {
+                generatedFields.viewFields.push(fieldImport);
+            }
+
+            const createable = this.isEditable(field, 'create');
+            const updateable = this.isEditable(field, 'edit');
+            if (!createable && !updateable) {
+                // formula, auto-number, system and relationship fields are only viewed
+                return;
+            }
+            const initialValue = this.getInitialValue(field);
+            generatedFields.formFields.push({
+                ...this.getFieldIdentifiers(field),
+                apiName: field,
+                type: this.describedFields.get(field)?.type ?? 'string',
+                required: this.isRequired(field),
+                createable,
+                updateable,
+                bindValue: initialValue !== undefined,
+                initialValue: initialValue ?? ''
+            });
+        });
+        importField(this.nameField);
+        return generatedFields;
+    }
+
+    /**
+     * Ensure all the TEMPLATE_* variables have a value. They are the pre-rendered placeholders of
+     * templates written before the template context, see generateTemplateContext().
+     */
+    private generateTemplateVariables(
+        generatedFields: GeneratedFields
+    ): TemplateVariables {
         const templateVariables: TemplateVariables = {};
         templateVariables[CodeBuilder.TEMPLATE_OBJECT_API_NAME] =
             this.objectApiName;
 
         // Labels
         templateVariables[CodeBuilder.TEMPLATE_CREATE_LWC_LABEL] =
-            `LWC for creating a/an ${this.objectApiName} instance.`;
+            this.getLwcLabel('creating');
         templateVariables[CodeBuilder.TEMPLATE_EDIT_LWC_LABEL] =
-            `LWC for editing a/an ${this.objectApiName} instance.`;
+            this.getLwcLabel('editing');
         templateVariables[CodeBuilder.TEMPLATE_VIEW_LWC_LABEL] =
-            `LWC for viewing a/an ${this.objectApiName} instance.`;
+            this.getLwcLabel('viewing');
 
         // We need to populate the following template variables:
         // TEMPLATE_FIELDS - a comma separated list of field names from the import statements, used in viewRecord template.
         //    ie: return [NAME_FIELD, PHONE_FIELD, WEBSITE_FIELD, INDUSTRY_FIELD, TYPE_FIELD];
-        // TEMPLATE_IMPORTS - a list of import statements that pulls in the @salesforce/schema fields:
+        // TEMPLATE_IMPORTS - a list of import statements that pulls in the @salesforce/schema fields, and the name field:
         //    ie: import NAME_FIELD from "@salesforce/schema/Account.Name";
-        // TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML - fields specified as lightning-input-field values in the create html:
-        //    ie: <lightning-input-field field-name={nameField} value={name}></lightning-input-field>
-        // TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML - fields specified as lightning-input-field values in the edit html
+        //    The identifiers of the fields come from getFieldIdentifiers().
+        // TEMPLATE_NAME_FIELD - the import of the name field, used to get the record name of the header in view and edit templates.
+        //    ie: CASENUMBER_FIELD
+        // TEMPLATE_NAME_FIELD_API_NAME - the name field, to read its value from the record:
+        //    ie: CaseNumber
+        // TEMPLATE_LIGHTNING_INPUT_CREATE_FIELDS_HTML - createable fields specified as lightning-input-field values in the create html:
+        //    ie: <lightning-input-field field-name={nameField} value={name} required></lightning-input-field>
+        // TEMPLATE_LIGHTNING_INPUT_EDIT_FIELDS_HTML - updateable fields specified as lightning-input-field values in the edit html,
+        // and the createable-only ones as lightning-output-field values
         //    ie: <lightning-input-field field-name={nameField}></lightning-input-field>
         // TEMPLATE_VARIABLES - aliases the imported fields to variables
         //    ie: nameField = NAME_FIELD;
@@ -275,17 +519,28 @@ export class CodeBuilder {
         var importAliases = '';
         var variableAssignments = '';
 
-        fieldNames.forEach((field) => {
-            var fieldNameImport = `${field.toUpperCase()}_FIELD`;
-            fields += `${fieldNameImport}, `;
-            imports += `import ${fieldNameImport} from "@salesforce/schema/${this.objectApiName}.${field}";\n`;
-
-            var fieldNameVariable = `${field.toLowerCase()}Field`;
-            importAliases += `${fieldNameVariable} = ${fieldNameImport};\n\t`;
-            variableAssignments += `${field.toLowerCase()} = "";\n\t`;
-            createFieldsHtml += `<lightning-input-field field-name={${fieldNameVariable}} value={${field.toLowerCase()}}></lightning-input-field>\n\t\t\t\t`;
-            editFieldsHtml += `<lightning-input-field field-name={${fieldNameVariable}}></lightning-input-field>\n\t\t\t\t`;
+        generatedFields.imports.forEach(({ importName, fieldPath }) => {
+            imports += `import ${importName} from "@salesforce/schema/${this.objectApiName}.${fieldPath}";\n`;
         });
+        generatedFields.viewFields.forEach(({ importName }) => {
+            fields += `${importName}, `;
+        });
+        generatedFields.formFields.forEach((field) => {
+            importAliases += `${field.fieldVariable} = ${field.importName};\n\t`;
+            if (field.createable) {
+                if (field.bindValue) {
+                    variableAssignments += `${field.valueVariable} = ${field.initialValue};\n\t`;
+                }
+                createFieldsHtml += `${this.getInputFieldHtml(field, field.bindValue)}\n\t\t\t\t`;
+            }
+            editFieldsHtml += field.updateable
+                ? `${this.getInputFieldHtml(field, false)}\n\t\t\t\t`
+                : `<lightning-output-field field-name={${field.fieldVariable}}></lightning-output-field>\n\t\t\t\t`;
+        });
+        templateVariables[CodeBuilder.TEMPLATE_NAME_FIELD] =
+            this.getFieldIdentifiers(this.nameField).importName;
+        templateVariables[CodeBuilder.TEMPLATE_NAME_FIELD_API_NAME] =
+            this.nameField;
         templateVariables[CodeBuilder.TEMPLATE_FIELDS] = fields;
         templateVariables[CodeBuilder.TEMPLATE_IMPORTS] = imports;
         templateVariables[
@@ -300,4 +555,187 @@ export class CodeBuilder {
 
         return templateVariables;
     }
+
+    /**
+     * The values the templates are rendered with, see TemplateEngine for their syntax. The quick action
+     * template also has quickActionLabel, lwcName and quickActionIcon.
+     *    ie: {% each createFields as field %}<lightning-input-field field-name={{% field.fieldVariable %}}>{% endeach %}
+     */
+    private generateTemplateContext(
+        generatedFields: GeneratedFields
+    ): TemplateContext {
+        const lookupFields = generatedFields.formFields.filter(
+            (field) => field.type === 'reference'
+        );
+        return {
+            ...this.templateVariables,
+            objectApiName: this.objectApiName,
+            createLwcLabel: this.getLwcLabel('creating'),
+            editLwcLabel: this.getLwcLabel('editing'),
+            viewLwcLabel: this.getLwcLabel('viewing'),
+            nameField: {
+                apiName: this.nameField,
+                importName: this.getFieldIdentifiers(this.nameField).importName
+            },
+            imports: generatedFields.imports,
+            viewFields: generatedFields.viewFields,
+            // the fields aliased in the create and edit components
+            formFields: generatedFields.formFields,
+            createFields: generatedFields.formFields.filter(
+                (field) => field.createable
+            ),
+            // updateable fields are inputs, createable-only ones are outputs
+            editFields: generatedFields.formFields,
+            lookupFields,
+            hasLookups: lookupFields.length > 0
+        };
+    }
+
+    private getLwcLabel(action: string): string {
+        return `LWC for ${action} a/an ${this.objectApiName} instance.`;
+    }
+
+    /**
+     * @returns the components of a compound field, ie: "FirstName" and "LastName" of the "Name" of a
+     * Contact, or an empty array if it is not a compound field.
+     */
+    private getComponentFields(fieldName: string): Field[] {
+        return [...this.describedFields.values()].filter(
+            (field) => field.compoundFieldName === fieldName
+        );
+    }
+
+    private isEditable(fieldName: string, mode: FormMode): boolean {
+        if (fieldName.includes('.')) {
+            // a field of a related record, ie: "Owner.Name"
+            return false;
+        }
+        const field = this.describedFields.get(fieldName);
+        if (!field) {
+            // not described, so keep it in the forms
+            return true;
+        }
+        const componentFields = this.getComponentFields(fieldName);
+        if (componentFields.length > 0) {
+            // a compound field is edited through its components
+            return componentFields.some((component) =>
+                mode === 'create' ? component.createable : component.updateable
+            );
+        }
+        if (field.calculated || field.autoNumber) {
+            return false;
+        }
+        return mode === 'create'
+            ? field.createable !== false
+            : field.updateable !== false;
+    }
+
+    private isRequired(fieldName: string): boolean {
+        const componentFields = this.getComponentFields(fieldName);
+        if (componentFields.length > 0) {
+            return componentFields.some((component) =>
+                this.isRequired(component.apiName)
+            );
+        }
+        const field = this.describedFields.get(fieldName);
+        // booleans are never null, and fields with a default value can be left empty
+        return (
+            field !== undefined &&
+            field.nillable === false &&
+            !field.defaultedOnCreate &&
+            field.type !== 'boolean' &&
+            field.createable !== false
+        );
+    }
+
+    /**
+     * @returns the value a create form input starts with, as a javascript literal, or undefined if the
+     * input should not be bound to a value: compound fields and picklists keep their defaults.
+     */
+    private getInitialValue(fieldName: string): string | undefined {
+        const field = this.describedFields.get(fieldName);
+        if (!field) {
+            return '""';
+        }
+        if (
+            this.getComponentFields(fieldName).length > 0 ||
+            field.defaultedOnCreate ||
+            CodeBuilder.DEFAULT_VALUE_FIELD_TYPES.includes(field.type)
+        ) {
+            return undefined;
+        }
+        if (field.type === 'boolean') {
+            return 'false';
+        }
+        if (CodeBuilder.NULL_VALUE_FIELD_TYPES.includes(field.type)) {
+            return 'null';
+        }
+        return '""';
+    }
+
+    private getInputFieldHtml(
+        field: TemplateField,
+        bindValue: boolean
+    ): string {
+        const attributes = [`field-name={${field.fieldVariable}}`];
+        if (bindValue) {
+            attributes.push(`value={${field.valueVariable}}`);
+        }
+        if (field.required) {
+            attributes.push('required');
+        }
+        return `<lightning-input-field ${attributes.join(' ')}></lightning-input-field>`;
+    }
+
+    /**
+     * @param fieldPath A field, ie: "ns__Thing__c", or a field of a related record, ie: "Owner.Name".
+     * @returns the identifiers of the field, unique among the fields of the generated LWCs.
+     */
+    getFieldIdentifiers(fieldPath: string): FieldIdentifiers {
+        const key = fieldPath.toLowerCase();
+        const existing = this.fieldIdentifiers.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        // ie: ["ns", "Thing", "c"] or ["Owner", "Name"]
+        const words = fieldPath.split(/[^A-Za-z0-9]+/).filter((word) => word);
+        const constantName = words.map((word) => word.toUpperCase()).join('_');
+        const camelName = words
+            .map((word, index) =>
+                index === 0
+                    ? word.charAt(0).toLowerCase() + word.slice(1)
+                    : word.charAt(0).toUpperCase() + word.slice(1)
+            )
+            .join('');
+
+        let identifiers: FieldIdentifiers;
+        for (let suffix = 1; ; suffix++) {
+            // ie: OWNER_NAME_FIELD, then OWNER_NAME_2_FIELD for a field of the same identifiers
+            identifiers =
+                suffix === 1
+                    ? {
+                          importName: `${constantName}_FIELD`,
+                          fieldVariable: `${camelName}Field`,
+                          valueVariable: camelName
+                      }
+                    : {
+                          importName: `${constantName}_${suffix}_FIELD`,
+                          fieldVariable: `${camelName}${suffix}Field`,
+                          valueVariable: `${camelName}${suffix}`
+                      };
+            if (
+                Object.values(identifiers).every(
+                    (identifier) => !this.usedIdentifiers.has(identifier)
+                )
+            ) {
+                break;
+            }
+        }
+        Object.values(identifiers).forEach((identifier) =>
+            this.usedIdentifiers.add(identifier)
+        );
+        this.fieldIdentifiers.set(key, identifiers);
+        return identifiers;
+    }
 }
@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { WorkspaceUtils } from './workspaceUtils';
+
+// missing: not generated yet, or deleted
+// untouched: as generated, safe to regenerate
+// edited: edited since it was generated
+// unmarked: without a marker, ie: written by hand or generated by an earlier version
+export type GeneratedFileState =
+    | 'missing'
+    | 'untouched'
+    | 'edited'
+    | 'unmarked';
+
+export type UnstampedContent = {
+    // the hash of the marker, undefined if there is no marker
+    hash?: string;
+    content: string;
+};
+
+/**
+ * Stamps the generated LWCs and quick actions with a marker holding the hash of their content, so
+ * they can be told apart from the files edited since they were generated. The content of a generated
+ * file is also kept in the base folder of the workspace, ie: `.sfmobile/generated/force-app/main/default/lwc/...`,
+ * as the base of a three-way merge with the files that were edited.
+ */
+export class GeneratedFileMarker {
+    static readonly MARKER_TEXT = 'Generated by Salesforce Mobile Extensions';
+    static readonly MARKER_PATTERN =
+        /^[^\n]*Generated by Salesforce Mobile Extensions, hash: ([0-9a-f]+)[^\n]*\n/m;
+    static readonly HASH_LENGTH = 16;
+    static readonly BASE_FOLDER = path.join('.sfmobile', 'generated');
+
+    /**
+     * @returns the hash of the content of a generated file, without its marker. Line endings are
+     * ignored, so a checkout converting them does not count as an edit.
+     */
+    static hash(content: string): string {
+        return createHash('sha256')
+            .update(content.replace(/\r\n/g, '\n'))
+            .digest('hex')
+            .slice(0, this.HASH_LENGTH);
+    }
+
+    /**
+     * @param filename The generated file, to comment the marker out in its language.
+     * @returns the content with its marker, or as is for a file the marker cannot be commented out in.
+     */
+    static stamp(filename: string, content: string): string {
+        const marker = `${this.MARKER_TEXT}, hash: ${this.hash(content)}`;
+        if (filename.endsWith('.xml')) {
+            // the marker goes after the xml declaration, which must come first
+            const declaration = /^<\?xml[^\n]*\?>[ \t]*\r?\n/.exec(content);
+            const prologue = declaration ? declaration[0] : '';
+            return `${prologue}<!-- ${marker} -->\n${content.slice(prologue.length)}`;
+        }
+        if (filename.endsWith('.html')) {
+            // the marker goes in the root template, a LWC template has nothing outside of it
+            const root = /^\s*<template[^>]*>[ \t]*\r?\n/.exec(content);
+            const prologue = root ? root[0] : '';
+            const indent = root ? '    ' : '';
+            return `${prologue}${indent}<!-- ${marker} -->\n${content.slice(prologue.length)}`;
+        }
+        if (filename.endsWith('.js')) {
+            return `// ${marker}\n${content}`;
+        }
+        if (filename.endsWith('.css')) {
+            return `/* ${marker} */\n${content}`;
+        }
+        return content;
+    }
+
+    static unstamp(content: string): UnstampedContent {
+        const match = this.MARKER_PATTERN.exec(content);
+        if (!match) {
+            return { content };
+        }
+        return {
+            hash: match[1],
+            content:
+                content.slice(0, match.index) +
+                content.slice(match.index + match[0].length)
+        };
+    }
+
+    static getState(filePath: string): GeneratedFileState {
+        if (!fs.existsSync(filePath)) {
+            return 'missing';
+        }
+        const { hash, content } = this.unstamp(
+            fs.readFileSync(filePath, 'utf8')
+        );
+        if (hash === undefined) {
+            return 'unmarked';
+        }
+        return this.hash(content) === hash ? 'untouched' : 'edited';
+    }
+
+    /**
+     * @param filePath The path of the generated file, relative to the workspace.
+     * @returns the path of the content the file was generated with, under the workspace.
+     */
+    static getBaseFilePath(filePath: string): string {
+        return path.join(
+            WorkspaceUtils.getWorkspaceDir(),
+            this.BASE_FOLDER,
+            filePath
+        );
+    }
+}
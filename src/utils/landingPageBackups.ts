@@ -0,0 +1,222 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as path from 'path';
+import { access, copyFile, mkdir, readdir, rm } from 'fs/promises';
+import { NoWorkspaceError, WorkspaceUtils } from './workspaceUtils';
+import { TemplateChooserCommand } from '../commands/wizard/templateChooserCommand';
+
+export type LandingPageBackup = {
+    landingPageName: string;
+    createdAt: Date;
+    // folder holding the backed up files, named after createdAt
+    folderPath: string;
+    // file names, ie: "landing_page.json" and "landing_page.resource-meta.xml"
+    filenames: string[];
+};
+
+/**
+ * Keeps timestamped copies of the landing pages before the extension overwrites them. Backups are in
+ * the .sfdx folder of the project, so they are neither deployed nor committed.
+ */
+export class LandingPageBackups {
+    static readonly BACKUPS_PATH = path.join('.sfdx', 'landingPageBackups');
+    static readonly MAX_BACKUPS_PER_LANDING_PAGE = 20;
+
+    static getBackupsDir(): string {
+        return path.join(WorkspaceUtils.getWorkspaceDir(), this.BACKUPS_PATH);
+    }
+
+    /**
+     * Copies the json and metadata of a landing page, the ones that exist, to a new backup.
+     * @returns the backup, or undefined if the landing page has no files to back up or there is no
+     * workspace to keep the backups in.
+     */
+    static async backup(
+        staticResourcesPath: string,
+        landingPageName: string
+    ): Promise<LandingPageBackup | undefined> {
+        const backup = await this.copyToBackup(
+            staticResourcesPath,
+            landingPageName
+        );
+        if (backup) {
+            await this.prune(landingPageName);
+        }
+        return backup;
+    }
+
+    private static async copyToBackup(
+        staticResourcesPath: string,
+        landingPageName: string
+    ): Promise<LandingPageBackup | undefined> {
+        let backupsDir: string;
+        try {
+            backupsDir = this.getBackupsDir();
+        } catch (err) {
+            if (err instanceof NoWorkspaceError) {
+                console.warn(
+                    `No workspace to back up '${landingPageName}' in.`
+                );
+                return undefined;
+            }
+            throw err;
+        }
+
+        const filenames: string[] = [];
+        for (const fileExtension of [
+            TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION,
+            TemplateChooserCommand.LANDING_PAGE_METADATA_FILE_EXTENSION
+        ]) {
+            const filename = landingPageName + fileExtension;
+            try {
+                await access(path.join(staticResourcesPath, filename));
+                filenames.push(filename);
+            } catch {
+                // nothing to back up
+            }
+        }
+        if (filenames.length === 0) {
+            return undefined;
+        }
+
+        const createdAt = new Date();
+        const folderPath = await this.createBackupFolder(
+            path.join(backupsDir, landingPageName),
+            createdAt
+        );
+        for (const filename of filenames) {
+            await copyFile(
+                path.join(staticResourcesPath, filename),
+                path.join(folderPath, filename)
+            );
+        }
+        return { landingPageName, createdAt, folderPath, filenames };
+    }
+
+    /**
+     * @param landingPageName The landing page to list the backups of, all of them by default.
+     * @returns the backups, the most recent first.
+     */
+    static async getBackups(
+        landingPageName?: string
+    ): Promise<LandingPageBackup[]> {
+        const backupsDir = this.getBackupsDir();
+        let landingPageNames: string[];
+        try {
+            landingPageNames = landingPageName
+                ? [landingPageName]
+                : await readdir(backupsDir);
+        } catch {
+            return [];
+        }
+
+        const backups: LandingPageBackup[] = [];
+        for (const name of landingPageNames) {
+            let folderNames: string[];
+            try {
+                folderNames = await readdir(path.join(backupsDir, name));
+            } catch {
+                continue;
+            }
+            for (const folderName of folderNames) {
+                const createdAt = this.parseFolderName(folderName);
+                if (!createdAt) {
+                    continue;
+                }
+                const folderPath = path.join(backupsDir, name, folderName);
+                backups.push({
+                    landingPageName: name,
+                    createdAt,
+                    folderPath,
+                    filenames: await readdir(folderPath)
+                });
+            }
+        }
+        return backups.sort(
+            (a, b) =>
+                b.createdAt.getTime() - a.createdAt.getTime() ||
+                b.folderPath.localeCompare(a.folderPath)
+        );
+    }
+
+    /**
+     * Copies the files of a backup back to the static resources. The current files are backed up
+     * first, so that restoring can be undone. The restored backup is kept even if it is the oldest.
+     */
+    static async restore(
+        backup: LandingPageBackup,
+        staticResourcesPath: string
+    ): Promise<void> {
+        await this.copyToBackup(staticResourcesPath, backup.landingPageName);
+        for (const filename of backup.filenames) {
+            await copyFile(
+                path.join(backup.folderPath, filename),
+                path.join(staticResourcesPath, filename)
+            );
+        }
+        await this.prune(backup.landingPageName, backup.folderPath);
+    }
+
+    // ie: "2024-05-01T10-20-30-400Z", with a "-1" suffix for a second backup in the same millisecond
+    private static toFolderName(createdAt: Date): string {
+        return createdAt.toISOString().replace(/[:.]/g, '-');
+    }
+
+    private static parseFolderName(folderName: string): Date | undefined {
+        const match =
+            /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(-\d+)?$/.exec(
+                folderName
+            );
+        return match
+            ? new Date(
+                  `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`
+              )
+            : undefined;
+    }
+
+    private static async createBackupFolder(
+        parentPath: string,
+        createdAt: Date
+    ): Promise<string> {
+        await mkdir(parentPath, { recursive: true });
+        const folderName = this.toFolderName(createdAt);
+        for (let suffix = 0; ; suffix++) {
+            const folderPath = path.join(
+                parentPath,
+                suffix === 0 ? folderName : `${folderName}-${suffix}`
+            );
+            try {
+                await mkdir(folderPath);
+                return folderPath;
+            } catch (err) {
+                if ((err as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw err;
+                }
+            }
+        }
+    }
+
+    /**
+     * Removes the oldest backups of a landing page beyond MAX_BACKUPS_PER_LANDING_PAGE.
+     * @param keptFolderPath A backup to keep, which counts towards the maximum.
+     */
+    private static async prune(
+        landingPageName: string,
+        keptFolderPath?: string
+    ) {
+        const backups = (await this.getBackups(landingPageName)).filter(
+            (backup) => backup.folderPath !== keptFolderPath
+        );
+        const maxBackups = keptFolderPath
+            ? this.MAX_BACKUPS_PER_LANDING_PAGE - 1
+            : this.MAX_BACKUPS_PER_LANDING_PAGE;
+        for (const backup of backups.slice(maxBackups)) {
+            await rm(backup.folderPath, { recursive: true, force: true });
+        }
+    }
+}
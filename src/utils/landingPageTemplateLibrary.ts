@@ -0,0 +1,314 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { l10n, workspace } from 'vscode';
+import * as path from 'path';
+import { access, readFile, readdir } from 'fs/promises';
+import { WorkspaceUtils } from './workspaceUtils';
+import { TemplateChooserCommand } from '../commands/wizard/templateChooserCommand';
+
+export type LandingPageTemplateSource = 'starterKit' | 'folder' | 'settings';
+
+export type LandingPageTemplate = {
+    // ie: "caseManagement" for the starter kit, "folder:field_service" for a team template
+    id: string;
+    title: string;
+    description?: string;
+    // absolute path of an image shown in the template chooser
+    thumbnailPath?: string;
+    jsonPath: string;
+    // absolute path of the static resource metadata, which may not exist for team templates
+    metaPath: string;
+    source: LandingPageTemplateSource;
+};
+
+/**
+ * Title, description and thumbnail of a template of the templates folder, in the `<name>.template.json` file next to it,
+ * ie: `{ "title": "Field Service", "description": "Work orders and service appointments", "thumbnail": "field_service.png" }`.
+ * The thumbnail is relative to the manifest.
+ */
+export type LandingPageTemplateManifest = {
+    title?: string;
+    description?: string;
+    thumbnail?: string;
+};
+
+/**
+ * A template of the `mobileOfflineLandingPage.templates` setting. Paths are relative to the workspace.
+ */
+export type LandingPageTemplateSetting = LandingPageTemplateManifest & {
+    path: string;
+};
+
+/**
+ * Discovers the landing page templates the template chooser offers: the ones of the starter kit, a
+ * folder of team templates, and the user settings. Static resources are landing pages, never templates
+ * of their own.
+ */
+export class LandingPageTemplateLibrary {
+    static readonly MANIFEST_FILE_EXTENSION = '.template.json';
+    static readonly TEMPLATES_FOLDER_CONFIG_PROPERTY =
+        'mobileOfflineLandingPage.templatesFolder';
+    static readonly TEMPLATES_CONFIG_PROPERTY =
+        'mobileOfflineLandingPage.templates';
+    // by file extension, without the dot
+    static readonly THUMBNAIL_MIME_TYPES: { [extension: string]: string } = {
+        png: 'image/png',
+        jpg: 'image/jpeg',
+        jpeg: 'image/jpeg',
+        gif: 'image/gif',
+        svg: 'image/svg+xml'
+    };
+    // by template id, which is also the landing page type of the template
+    static readonly STARTER_KIT_TEMPLATES: {
+        [templateId: string]: {
+            title: string;
+            description: string;
+        };
+    } = {
+        default: {
+            title: l10n.t('Default'),
+            description: l10n.t(
+                'Recently viewed Contacts, Accounts, and Opportunities'
+            )
+        },
+        caseManagement: {
+            title: l10n.t('Case Management'),
+            description: l10n.t(
+                'New Case action and the 5 most recent Cases, Accounts, and Contacts'
+            )
+        },
+        healthcare: {
+            title: l10n.t('Healthcare'),
+            description: l10n.t(
+                'Global quick actions with BarcodeScanner, new Visitor, and more'
+            )
+        },
+        retail: {
+            title: l10n.t('Retail Execution'),
+            description: l10n.t(
+                'Global quick actions with new Opportunity, new Lead, and more'
+            )
+        }
+    };
+
+    /**
+     * @returns every template, the ones of the starter kit first. Templates of a folder that cannot be
+     * read are left out.
+     */
+    static async getTemplates(
+        staticResourcesPath: string
+    ): Promise<LandingPageTemplate[]> {
+        const templates = this.getStarterKitTemplates(staticResourcesPath);
+
+        const templatesFolder = this.getTemplatesFolder();
+        if (templatesFolder) {
+            templates.push(
+                ...(await this.getFolderTemplates(templatesFolder, 'folder'))
+            );
+        }
+
+        templates.push(...this.getSettingsTemplates());
+        return templates;
+    }
+
+    static getStarterKitTemplates(
+        staticResourcesPath: string
+    ): LandingPageTemplate[] {
+        return Object.entries(this.STARTER_KIT_TEMPLATES).map(
+            ([templateId, { title, description }]) => {
+                const filenamePrefix =
+                    TemplateChooserCommand.LANDING_PAGE_FILENAME_PREFIXES[
+                        templateId
+                    ];
+                return {
+                    id: templateId,
+                    title,
+                    description,
+                    jsonPath: path.join(
+                        staticResourcesPath,
+                        filenamePrefix +
+                            TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+                    ),
+                    metaPath: path.join(
+                        staticResourcesPath,
+                        filenamePrefix +
+                            TemplateChooserCommand.LANDING_PAGE_METADATA_FILE_EXTENSION
+                    ),
+                    source: 'starterKit'
+                };
+            }
+        );
+    }
+
+    /**
+     * @param folderPath The folder to look for `<name>.json` templates in, each one described by its
+     * `<name>.template.json` manifest if any.
+     */
+    static async getFolderTemplates(
+        folderPath: string,
+        source: LandingPageTemplateSource
+    ): Promise<LandingPageTemplate[]> {
+        let filenames: string[];
+        try {
+            filenames = await readdir(folderPath);
+        } catch (err) {
+            console.warn(
+                `Could not read the landing page templates at '${folderPath}'.`,
+                err
+            );
+            return [];
+        }
+
+        const templates: LandingPageTemplate[] = [];
+        for (const filename of filenames.sort()) {
+            if (
+                !filename.endsWith(
+                    TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+                ) ||
+                filename.endsWith(this.MANIFEST_FILE_EXTENSION)
+            ) {
+                continue;
+            }
+            const name = filename.slice(
+                0,
+                -TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION.length
+            );
+            const hasManifest = filenames.includes(
+                name + this.MANIFEST_FILE_EXTENSION
+            );
+            const manifest = hasManifest
+                ? await this.loadManifest(
+                      path.join(folderPath, name + this.MANIFEST_FILE_EXTENSION)
+                  )
+                : {};
+            templates.push({
+                id: `${source}:${name}`,
+                title: manifest.title ?? name,
+                description: manifest.description,
+                thumbnailPath: manifest.thumbnail
+                    ? path.resolve(folderPath, manifest.thumbnail)
+                    : undefined,
+                jsonPath: path.join(folderPath, filename),
+                metaPath: path.join(
+                    folderPath,
+                    name +
+                        TemplateChooserCommand.LANDING_PAGE_METADATA_FILE_EXTENSION
+                ),
+                source
+            });
+        }
+        return templates;
+    }
+
+    static getSettingsTemplates(): LandingPageTemplate[] {
+        const settings =
+            workspace
+                .getConfiguration()
+                .get<
+                    LandingPageTemplateSetting[]
+                >(this.TEMPLATES_CONFIG_PROPERTY) ?? [];
+        return settings
+            .filter((setting) => typeof setting?.path === 'string')
+            .map((setting, index) => {
+                const jsonPath = this.resolveWorkspacePath(setting.path);
+                const name = path.basename(
+                    jsonPath,
+                    TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+                );
+                return {
+                    id: `settings:${index}`,
+                    title: setting.title ?? name,
+                    description: setting.description,
+                    thumbnailPath: setting.thumbnail
+                        ? this.resolveWorkspacePath(setting.thumbnail)
+                        : undefined,
+                    jsonPath,
+                    metaPath: path.join(
+                        path.dirname(jsonPath),
+                        name +
+                            TemplateChooserCommand.LANDING_PAGE_METADATA_FILE_EXTENSION
+                    ),
+                    source: 'settings'
+                };
+            });
+    }
+
+    /**
+     * @returns the absolute path of the folder of team templates, or undefined if none is configured.
+     */
+    static getTemplatesFolder(): string | undefined {
+        const folder = workspace
+            .getConfiguration()
+            .get<string>(this.TEMPLATES_FOLDER_CONFIG_PROPERTY);
+        return folder ? this.resolveWorkspacePath(folder) : undefined;
+    }
+
+    /**
+     * @returns the thumbnail as a data URI, since webviews only load files of the extension, or
+     * undefined if it cannot be read.
+     */
+    static async getThumbnailDataUri(
+        thumbnailPath: string
+    ): Promise<string | undefined> {
+        const mimeType =
+            this.THUMBNAIL_MIME_TYPES[
+                path.extname(thumbnailPath).slice(1).toLowerCase()
+            ];
+        if (!mimeType) {
+            return undefined;
+        }
+        try {
+            const content = await readFile(thumbnailPath);
+            return `data:${mimeType};base64,${content.toString('base64')}`;
+        } catch {
+            return undefined;
+        }
+    }
+
+    static async templateFilesExist(
+        template: LandingPageTemplate
+    ): Promise<{ jsonFileExists: boolean; metaFileExists: boolean }> {
+        const exists = async (filePath: string) => {
+            try {
+                await access(filePath);
+                return true;
+            } catch {
+                return false;
+            }
+        };
+        return {
+            jsonFileExists: await exists(template.jsonPath),
+            metaFileExists: await exists(template.metaPath)
+        };
+    }
+
+    private static async loadManifest(
+        manifestPath: string
+    ): Promise<LandingPageTemplateManifest> {
+        try {
+            const manifest = JSON.parse(await readFile(manifestPath, 'utf8'));
+            return manifest !== null && typeof manifest === 'object'
+                ? manifest
+                : {};
+        } catch (err) {
+            console.warn(`Could not read '${manifestPath}'.`, err);
+            return {};
+        }
+    }
+
+    private static resolveWorkspacePath(filePath: string): string {
+        if (path.isAbsolute(filePath)) {
+            return filePath;
+        }
+        try {
+            return path.join(WorkspaceUtils.getWorkspaceDir(), filePath);
+        } catch {
+            return path.resolve(filePath);
+        }
+    }
+}
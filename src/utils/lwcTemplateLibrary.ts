@@ -0,0 +1,93 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { Uri, workspace } from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkspaceUtils } from './workspaceUtils';
+
+/**
+ * Resolves the templates CodeBuilder generates the LWCs and quick actions from. A project can
+ * override any of the bundled templates in its templates folder, ie:
+ * `.sfmobile/templates/editRecord/editRecord.html`, and keep named template sets in subfolders of it,
+ * ie: `.sfmobile/templates/designSystem/editRecord/editRecord.html`. Each file is resolved on its
+ * own, from the template set, then the templates folder, then the bundled templates.
+ */
+export class LwcTemplateLibrary {
+    static readonly TEMPLATES_FOLDER_CONFIG_PROPERTY =
+        'mobileOfflineLwcGeneration.templatesFolder';
+    static readonly TEMPLATE_SET_CONFIG_PROPERTY =
+        'mobileOfflineLwcGeneration.templateSet';
+    static readonly DEFAULT_TEMPLATES_FOLDER = path.join(
+        '.sfmobile',
+        'templates'
+    );
+
+    /**
+     * @returns the absolute path of the project templates folder, or undefined if there is no
+     * workspace.
+     */
+    static getTemplatesFolder(): string | undefined {
+        const folder =
+            workspace
+                .getConfiguration()
+                .get<string>(this.TEMPLATES_FOLDER_CONFIG_PROPERTY) ||
+            this.DEFAULT_TEMPLATES_FOLDER;
+        if (path.isAbsolute(folder)) {
+            return folder;
+        }
+        try {
+            return path.join(WorkspaceUtils.getWorkspaceDir(), folder);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * @returns the configured template set, or undefined to use the templates folder only.
+     */
+    static getTemplateSet(): string | undefined {
+        return (
+            workspace
+                .getConfiguration()
+                .get<string>(this.TEMPLATE_SET_CONFIG_PROPERTY) || undefined
+        );
+    }
+
+    /**
+     * @param templateFilePath The path of a template file relative to the templates folders, ie:
+     * "editRecord/editRecord.html" or "quickAction.xml".
+     * @param templateSet The template set to look in first.
+     * @returns the absolute path of the template file to generate from.
+     */
+    static resolveTemplateFile(
+        extensionUri: Uri,
+        templateFilePath: string,
+        templateSet?: string
+    ): string {
+        const templatesFolder = this.getTemplatesFolder();
+        if (templatesFolder) {
+            const candidates = templateSet
+                ? [
+                      path.join(templatesFolder, templateSet, templateFilePath),
+                      path.join(templatesFolder, templateFilePath)
+                  ]
+                : [path.join(templatesFolder, templateFilePath)];
+            const override = candidates.find((candidate) =>
+                fs.existsSync(candidate)
+            );
+            if (override) {
+                return override;
+            }
+        }
+        return Uri.joinPath(
+            extensionUri,
+            WorkspaceUtils.LWC_TEMPLATE_PATH,
+            templateFilePath
+        ).fsPath;
+    }
+}
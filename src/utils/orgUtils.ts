@@ -5,6 +5,7 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
  */
 
+import { l10n } from 'vscode';
 import { ConfigAggregator, OrgConfigProperties } from '@salesforce/core';
 import { CoreExtensionService } from '../services/CoreExtensionService';
 
@@ -18,6 +19,19 @@ export interface Field {
     apiName: string;
     label: string;
     type: string;
+    sortable?: boolean;
+    // describe metadata, used to generate the LWCs of the sObject
+    nillable?: boolean;
+    createable?: boolean;
+    updateable?: boolean;
+    calculated?: boolean;
+    autoNumber?: boolean;
+    defaultedOnCreate?: boolean;
+    // whether this is the field naming the records, ie: "CaseNumber" of a Case
+    nameField?: boolean;
+    // the compound field this field is a component of, ie: "BillingAddress" for "BillingCity"
+    compoundFieldName?: string;
+    referenceTo?: string[];
 }
 
 export interface CompactLayoutFieldComponents {
@@ -31,6 +45,9 @@ export interface CompactLayoutField {
     layoutComponents: CompactLayoutFieldComponents[];
 }
 
+// A record returned by a query, ie: { Name: 'Acme', Owner: { Name: 'Jane' } }
+export type SampleRecord = { [fieldApiName: string]: unknown };
+
 export type SObjectCompactLayoutMapping = {
     compactLayoutId: string | null;
     compactLayoutName: string;
@@ -47,6 +64,14 @@ export type SObjectCompactLayout = {
 };
 
 export class OrgUtils {
+    // the most records a query of sample records returns
+    static readonly MAX_SAMPLE_RECORDS = 200;
+
+    // an sObject or field api name, or a relationship field, ie: "Owner.Name"
+    static readonly SOQL_FIELD_PATTERN = /^\w+(\.\w+)*$/;
+    static readonly SOQL_ORDERING_PATTERN =
+        /^\w+(\.\w+)*(\s+(ASC|DESC))?(\s+NULLS\s+(FIRST|LAST))?$/i;
+
     public static async getSobjects(): Promise<SObject[]> {
         try {
             const conn =
@@ -81,7 +106,17 @@ export class OrgUtils {
                     const f: Field = {
                         apiName: field.name,
                         label: field.label,
-                        type: field.type
+                        type: field.type,
+                        sortable: field.sortable,
+                        nillable: field.nillable,
+                        createable: field.createable,
+                        updateable: field.updateable,
+                        calculated: field.calculated,
+                        autoNumber: field.autoNumber,
+                        defaultedOnCreate: field.defaultedOnCreate,
+                        nameField: field.nameField,
+                        compoundFieldName: field.compoundFieldName ?? undefined,
+                        referenceTo: field.referenceTo ?? undefined
                     };
                     return f;
                 })
@@ -177,6 +212,66 @@ export class OrgUtils {
         }
     }
 
+    /**
+     * Queries a few records of an sObject, ie: to preview a list of the landing page. The names come
+     * from the landing page json, so they are checked before they make it into the query.
+     * @param orderBy The ORDER BY clause, without the keywords, ie: "Name ASC".
+     * @param limit The number of records, clamped between 1 and MAX_SAMPLE_RECORDS.
+     */
+    public static async getSampleRecords(
+        sObjectName: string,
+        fieldApiNames: string[],
+        orderBy: string | undefined,
+        limit: number
+    ): Promise<SampleRecord[]> {
+        try {
+            const fields = fieldApiNames.length > 0 ? fieldApiNames : ['Id'];
+            const orderings = orderBy
+                ? orderBy.split(',').map((ordering) => ordering.trim())
+                : [];
+            if (!/^\w+$/.test(sObjectName)) {
+                throw new Error(
+                    l10n.t(
+                        "'{0}' is not a valid sObject api name.",
+                        sObjectName
+                    )
+                );
+            }
+            for (const field of fields) {
+                if (!OrgUtils.SOQL_FIELD_PATTERN.test(field)) {
+                    throw new Error(
+                        l10n.t("'{0}' is not a valid field api name.", field)
+                    );
+                }
+            }
+            for (const ordering of orderings) {
+                if (!OrgUtils.SOQL_ORDERING_PATTERN.test(ordering)) {
+                    throw new Error(
+                        l10n.t("'{0}' is not a valid ordering.", ordering)
+                    );
+                }
+            }
+            const rowLimit = Number.isFinite(limit)
+                ? Math.min(
+                      Math.max(Math.trunc(limit), 1),
+                      OrgUtils.MAX_SAMPLE_RECORDS
+                  )
+                : 1;
+
+            const orderByClause =
+                orderings.length > 0 ? ` ORDER BY ${orderings.join(', ')}` : '';
+            const conn =
+                await CoreExtensionService.getWorkspaceContext().getConnection();
+            const result = await conn.query<SampleRecord>(
+                `SELECT ${fields.join(', ')} FROM ${sObjectName}${orderByClause} LIMIT ${rowLimit}`
+            );
+            return Promise.resolve(result.records);
+        } catch (error) {
+            console.log(error);
+            return Promise.reject(error);
+        }
+    }
+
     public static async getDefaultUser(): Promise<string> {
         const aggregator = await ConfigAggregator.create();
 
@@ -0,0 +1,195 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import * as path from 'path';
+import { access, readFile, readdir, writeFile } from 'fs/promises';
+
+export type StaticResourceCacheControl = 'Private' | 'Public';
+
+export type StaticResourceMetadataOptions = {
+    contentType?: string;
+    cacheControl?: StaticResourceCacheControl;
+    description?: string;
+};
+
+export type StaticResourceMetadataRepair = {
+    // landing pages that had no metadata
+    generated: string[];
+    // landing pages whose metadata could not be read or was not of json content
+    fixed: string[];
+    // metadata without a landing page, left as is
+    orphaned: string[];
+};
+
+/**
+ * Generates the `.resource-meta.xml` of the landing page static resources, so a landing page json
+ * never needs its metadata to be written by hand.
+ */
+export class StaticResourceMetadata {
+    static readonly JSON_FILE_EXTENSION = '.json';
+    static readonly METADATA_FILE_EXTENSION = '.resource-meta.xml';
+    static readonly JSON_CONTENT_TYPE = 'application/json';
+    static readonly DEFAULT_CACHE_CONTROL: StaticResourceCacheControl =
+        'Private';
+
+    static generate(options: StaticResourceMetadataOptions = {}): string {
+        const description =
+            options.description !== undefined
+                ? `    <description>${this.escape(options.description)}</description>\n`
+                : '';
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<StaticResource xmlns="http://soap.sforce.com/2006/04/metadata">
+    <cacheControl>${options.cacheControl ?? this.DEFAULT_CACHE_CONTROL}</cacheControl>
+    <contentType>${this.escape(options.contentType ?? this.JSON_CONTENT_TYPE)}</contentType>
+${description}</StaticResource>
+`;
+    }
+
+    /**
+     * @returns the settings of the metadata, or undefined if it is not a static resource.
+     */
+    static parse(xml: string): StaticResourceMetadataOptions | undefined {
+        if (!/<StaticResource[\s>]/.test(xml)) {
+            return undefined;
+        }
+        const element = (name: string) => {
+            const match = new RegExp(`<${name}>([^<]*)</${name}>`).exec(xml);
+            return match ? this.unescape(match[1].trim()) : undefined;
+        };
+        const cacheControl = element('cacheControl');
+        return {
+            contentType: element('contentType'),
+            cacheControl:
+                cacheControl === 'Public' || cacheControl === 'Private'
+                    ? cacheControl
+                    : undefined,
+            description: element('description')
+        };
+    }
+
+    /**
+     * Writes the metadata of a landing page if it has none.
+     * @returns true if the metadata was written.
+     */
+    static async ensureExists(
+        staticResourcesPath: string,
+        landingPageName: string,
+        options: StaticResourceMetadataOptions = {}
+    ): Promise<boolean> {
+        const metaFilePath = path.join(
+            staticResourcesPath,
+            landingPageName + this.METADATA_FILE_EXTENSION
+        );
+        try {
+            await access(metaFilePath);
+            return false;
+        } catch {
+            await writeFile(metaFilePath, this.generate(options));
+            return true;
+        }
+    }
+
+    /**
+     * Writes the metadata of a landing page, keeping the cache control and description of the
+     * metadata it replaces.
+     */
+    static async write(
+        staticResourcesPath: string,
+        landingPageName: string
+    ): Promise<void> {
+        const metaFilePath = path.join(
+            staticResourcesPath,
+            landingPageName + this.METADATA_FILE_EXTENSION
+        );
+        let existing: StaticResourceMetadataOptions | undefined;
+        try {
+            existing = this.parse(await readFile(metaFilePath, 'utf8'));
+        } catch {
+            // no metadata yet
+        }
+        await writeFile(
+            metaFilePath,
+            this.generate({
+                cacheControl: existing?.cacheControl,
+                description: existing?.description
+            })
+        );
+    }
+
+    /**
+     * Generates the missing metadata of the given landing pages, and rewrites the metadata that is not
+     * of json content.
+     * @param landingPageNames The static resources to check, ie: "landing_page_sales".
+     * @param beforeOverwrite Called before the metadata of a static resource is rewritten, ie: to back
+     * it up.
+     */
+    static async repair(
+        staticResourcesPath: string,
+        landingPageNames: string[],
+        beforeOverwrite: (landingPageName: string) => Promise<unknown>
+    ): Promise<StaticResourceMetadataRepair> {
+        const filenames = await readdir(staticResourcesPath);
+        const repair: StaticResourceMetadataRepair = {
+            generated: [],
+            fixed: [],
+            orphaned: []
+        };
+        for (const name of landingPageNames) {
+            const jsonExists = filenames.includes(
+                name + this.JSON_FILE_EXTENSION
+            );
+            const metaExists = filenames.includes(
+                name + this.METADATA_FILE_EXTENSION
+            );
+            if (!jsonExists) {
+                if (metaExists) {
+                    repair.orphaned.push(name);
+                }
+                continue;
+            }
+            if (!metaExists) {
+                await this.ensureExists(staticResourcesPath, name);
+                repair.generated.push(name);
+                continue;
+            }
+
+            const metadata = this.parse(
+                await readFile(
+                    path.join(
+                        staticResourcesPath,
+                        name + this.METADATA_FILE_EXTENSION
+                    ),
+                    'utf8'
+                )
+            );
+            if (metadata?.contentType !== this.JSON_CONTENT_TYPE) {
+                await beforeOverwrite(name);
+                await this.write(staticResourcesPath, name);
+                repair.fixed.push(name);
+            }
+        }
+        return repair;
+    }
+
+    private static escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+
+    private static unescape(text: string): string {
+        return text
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
+}
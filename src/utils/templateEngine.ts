@@ -0,0 +1,410 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+export type TemplateValue =
+    | string
+    | number
+    | boolean
+    | undefined
+    | TemplateValue[]
+    | { [name: string]: TemplateValue };
+
+export type TemplateContext = { [name: string]: TemplateValue };
+
+// how values are escaped, by default the one of the generated file
+export type TemplateEscaping = 'html' | 'xml' | 'js' | 'raw';
+
+export type TemplateOptions = {
+    // the template file, for error messages
+    name: string;
+    escaping: TemplateEscaping;
+};
+
+type TemplateNode =
+    | { type: 'text'; text: string }
+    | {
+          type: 'value';
+          expression: string;
+          escaping?: TemplateEscaping;
+          line: number;
+      }
+    | {
+          type: 'each';
+          expression: string;
+          itemName: string;
+          body: TemplateNode[];
+          line: number;
+      }
+    | {
+          type: 'if';
+          expression: string;
+          negate: boolean;
+          then: TemplateNode[];
+          otherwise: TemplateNode[];
+          line: number;
+      };
+
+type OpenBlock = {
+    node: Extract<TemplateNode, { type: 'each' | 'if' }>;
+    inElse: boolean;
+};
+
+export class TemplateError extends Error {
+    constructor(message?: string) {
+        super(message);
+        this.name = this.constructor.name;
+        Object.setPrototypeOf(this, TemplateError.prototype);
+    }
+}
+
+/**
+ * Renders the templates of the generated LWCs and quick actions. Tags are delimited by `{%` and `%}`,
+ * so they do not clash with the `{property}` bindings of LWC html:
+ *
+ * - `{% field.label %}` outputs a value, escaped for the generated file; `{% field.label | raw %}`
+ *   outputs it as is, and `html`, `xml` and `js` pick another escaping.
+ * - `{% each fields as field %}` ... `{% endeach %}` loops over a list, with `@index`, `@first` and
+ *   `@last` in scope.
+ * - `{% if hasLookups %}` ... `{% else %}` ... `{% endif %}`, and `{% if !field.required %}`.
+ *
+ * A line holding only an each, if, else or end tag is left out of the output. The `///NAME///`
+ * placeholders of earlier templates are still substituted, without escaping. Unresolved names are
+ * errors rather than empty output.
+ */
+export class TemplateEngine {
+    static readonly TAG_PATTERN =
+        /\{%\s*(.*?)\s*%\}([ \t]*\r?\n)?|\/\/\/([A-Z][A-Z0-9_]*)\/\/\//g;
+    static readonly EXPRESSION_PATTERN =
+        /^[A-Za-z_$@][\w$]*(\.[A-Za-z_$@][\w$]*)*$/;
+
+    static render(
+        template: string,
+        context: TemplateContext,
+        options: TemplateOptions
+    ): string {
+        const nodes = this.parse(template, options.name);
+        return this.renderNodes(nodes, [context], options);
+    }
+
+    /**
+     * @returns the escaping of a generated file, ie: "html" for "createRecord.html".
+     */
+    static getEscaping(filename: string): TemplateEscaping {
+        if (filename.endsWith('.html')) {
+            return 'html';
+        }
+        if (filename.endsWith('.xml')) {
+            return 'xml';
+        }
+        if (filename.endsWith('.js')) {
+            return 'js';
+        }
+        return 'raw';
+    }
+
+    static escape(value: string, escaping: TemplateEscaping): string {
+        switch (escaping) {
+            case 'html':
+            case 'xml':
+                return value
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;')
+                    .replace(/'/g, '&apos;');
+            case 'js':
+                // for string literals of any quote
+                return value
+                    .replace(/\\/g, '\\\\')
+                    .replace(/'/g, "\\'")
+                    .replace(/"/g, '\\"')
+                    .replace(/`/g, '\\`')
+                    .replace(/\$\{/g, '\\${')
+                    .replace(/\r/g, '\\r')
+                    .replace(/\n/g, '\\n');
+            default:
+                return value;
+        }
+    }
+
+    private static parse(template: string, name: string): TemplateNode[] {
+        const root: TemplateNode[] = [];
+        const openBlocks: OpenBlock[] = [];
+        const current = (): TemplateNode[] => {
+            const open = openBlocks[openBlocks.length - 1];
+            if (!open) {
+                return root;
+            }
+            if (open.node.type === 'each') {
+                return open.node.body;
+            }
+            return open.inElse ? open.node.otherwise : open.node.then;
+        };
+        const fail = (line: number, message: string) =>
+            new TemplateError(`${name}:${line}: ${message}`);
+
+        let lastIndex = 0;
+        for (const match of template.matchAll(this.TAG_PATTERN)) {
+            const index = match.index ?? 0;
+            const line = template.slice(0, index).split('\n').length;
+            const [whole, tag, lineEnd, legacyName] = match;
+            // the indentation of a tag that starts its line
+            const lineStart = template.lastIndexOf('\n', index - 1) + 1;
+            const indent =
+                lineStart >= lastIndex &&
+                /^[ \t]*$/.test(template.slice(lineStart, index))
+                    ? template.slice(lineStart, index)
+                    : undefined;
+            current().push({
+                type: 'text',
+                text: template.slice(
+                    lastIndex,
+                    indent !== undefined ? lineStart : index
+                )
+            });
+            lastIndex = index + whole.length;
+
+            if (legacyName !== undefined) {
+                current().push({ type: 'text', text: indent ?? '' });
+                current().push({
+                    type: 'value',
+                    expression: legacyName,
+                    escaping: 'raw',
+                    line
+                });
+                continue;
+            }
+
+            const [keyword, ...args] = tag.split(/\s+/);
+            const isBlockTag = [
+                'each',
+                'if',
+                'else',
+                'endeach',
+                'endif'
+            ].includes(keyword);
+            // a block tag alone on its line leaves no blank line
+            const standalone =
+                isBlockTag && indent !== undefined && lineEnd !== undefined;
+            if (!standalone) {
+                current().push({ type: 'text', text: indent ?? '' });
+            }
+
+            switch (keyword) {
+                case 'each': {
+                    if (
+                        args.length !== 3 ||
+                        args[1] !== 'as' ||
+                        !this.EXPRESSION_PATTERN.test(args[0]) ||
+                        !/^[A-Za-z_$][\w$]*$/.test(args[2])
+                    ) {
+                        throw fail(line, `Invalid each tag '${tag}'.`);
+                    }
+                    const node: TemplateNode = {
+                        type: 'each',
+                        expression: args[0],
+                        itemName: args[2],
+                        body: [],
+                        line
+                    };
+                    current().push(node);
+                    openBlocks.push({ node, inElse: false });
+                    break;
+                }
+                case 'if': {
+                    const negate = args[0]?.startsWith('!') ?? false;
+                    const expression = negate ? args[0].slice(1) : args[0];
+                    if (
+                        args.length !== 1 ||
+                        !this.EXPRESSION_PATTERN.test(expression)
+                    ) {
+                        throw fail(line, `Invalid if tag '${tag}'.`);
+                    }
+                    const node: TemplateNode = {
+                        type: 'if',
+                        expression,
+                        negate,
+                        then: [],
+                        otherwise: [],
+                        line
+                    };
+                    current().push(node);
+                    openBlocks.push({ node, inElse: false });
+                    break;
+                }
+                case 'else': {
+                    const open = openBlocks[openBlocks.length - 1];
+                    if (!open || open.node.type !== 'if' || open.inElse) {
+                        throw fail(line, 'Unexpected else tag.');
+                    }
+                    open.inElse = true;
+                    break;
+                }
+                case 'endeach':
+                case 'endif': {
+                    const open = openBlocks.pop();
+                    if (!open || `end${open.node.type}` !== keyword) {
+                        throw fail(line, `Unexpected ${keyword} tag.`);
+                    }
+                    break;
+                }
+                default: {
+                    const [expression, escaping, ...rest] = tag
+                        .split('|')
+                        .map((part) => part.trim());
+                    if (
+                        !this.EXPRESSION_PATTERN.test(expression) ||
+                        rest.length > 0 ||
+                        (escaping !== undefined &&
+                            !['html', 'xml', 'js', 'raw'].includes(escaping))
+                    ) {
+                        throw fail(line, `Invalid tag '${tag}'.`);
+                    }
+                    current().push({
+                        type: 'value',
+                        expression,
+                        escaping: escaping as TemplateEscaping | undefined,
+                        line
+                    });
+                    if (lineEnd !== undefined) {
+                        current().push({ type: 'text', text: lineEnd });
+                    }
+                }
+            }
+            if (!standalone && isBlockTag && lineEnd !== undefined) {
+                current().push({ type: 'text', text: lineEnd });
+            }
+        }
+        if (openBlocks.length > 0) {
+            const open = openBlocks[openBlocks.length - 1];
+            throw fail(
+                open.node.line,
+                `The ${open.node.type} tag is not closed.`
+            );
+        }
+        root.push({ type: 'text', text: template.slice(lastIndex) });
+        return root;
+    }
+
+    private static renderNodes(
+        nodes: TemplateNode[],
+        scopes: TemplateContext[],
+        options: TemplateOptions
+    ): string {
+        let output = '';
+        for (const node of nodes) {
+            switch (node.type) {
+                case 'text':
+                    output += node.text;
+                    break;
+                case 'value': {
+                    const value = this.resolve(
+                        node.expression,
+                        scopes,
+                        options,
+                        node.line
+                    );
+                    if (
+                        typeof value !== 'string' &&
+                        typeof value !== 'number' &&
+                        typeof value !== 'boolean'
+                    ) {
+                        throw new TemplateError(
+                            `${options.name}:${node.line}: '${node.expression}' has no value to output.`
+                        );
+                    }
+                    output += this.escape(
+                        String(value),
+                        node.escaping ?? options.escaping
+                    );
+                    break;
+                }
+                case 'each': {
+                    const list = this.resolve(
+                        node.expression,
+                        scopes,
+                        options,
+                        node.line
+                    );
+                    if (!Array.isArray(list)) {
+                        throw new TemplateError(
+                            `${options.name}:${node.line}: '${node.expression}' is not a list.`
+                        );
+                    }
+                    list.forEach((item, index) => {
+                        output += this.renderNodes(
+                            node.body,
+                            [
+                                ...scopes,
+                                {
+                                    [node.itemName]: item,
+                                    ['@index']: index,
+                                    ['@first']: index === 0,
+                                    ['@last']: index === list.length - 1
+                                }
+                            ],
+                            options
+                        );
+                    });
+                    break;
+                }
+                case 'if': {
+                    const value = this.resolve(
+                        node.expression,
+                        scopes,
+                        options,
+                        node.line
+                    );
+                    const truthy = Array.isArray(value)
+                        ? value.length > 0
+                        : Boolean(value);
+                    output += this.renderNodes(
+                        truthy !== node.negate ? node.then : node.otherwise,
+                        scopes,
+                        options
+                    );
+                    break;
+                }
+            }
+        }
+        return output;
+    }
+
+    /**
+     * @returns the value of a dotted expression, ie: "field.importName". Properties that are not
+     * defined are undefined, but the first name must be in scope.
+     */
+    private static resolve(
+        expression: string,
+        scopes: TemplateContext[],
+        options: TemplateOptions,
+        line: number
+    ): TemplateValue {
+        const [name, ...properties] = expression.split('.');
+        const scope = [...scopes]
+            .reverse()
+            .find((candidate) =>
+                Object.prototype.hasOwnProperty.call(candidate, name)
+            );
+        if (!scope) {
+            throw new TemplateError(
+                `${options.name}:${line}: '${name}' is not defined.`
+            );
+        }
+        let value: TemplateValue = scope[name];
+        for (const property of properties) {
+            value =
+                value !== null &&
+                typeof value === 'object' &&
+                !Array.isArray(value) &&
+                Object.prototype.hasOwnProperty.call(value, property)
+                    ? value[property]
+                    : undefined;
+        }
+        return value;
+    }
+}
@@ -6,13 +6,61 @@
  */
 
 import { l10n } from 'vscode';
+import { randomUUID } from 'crypto';
 import { Field } from './orgUtils';
+import { JSON_INDENTATION_SPACES } from './constants';
+import { UEMParsedComponent, UEMParser } from './uemParser';
+import type {
+    UEMActionList,
+    UEMCard,
+    UEMCardContent,
+    UEMComponent,
+    UEMDocument,
+    UEMFieldMap,
+    UEMFields,
+    UEMList,
+    UEMRegion,
+    UEMTimedList
+} from '../types';
+
+/**
+ * The document level settings of a landing page. The apiName is also the name of its static resource.
+ */
+export type UEMBuilderOptions = {
+    id?: string;
+    apiName?: string;
+    target?: string;
+    backgroundColor?: string;
+};
+
+/**
+ * How the cards of a template are merged into a landing page. Indexes are the positions of the cards.
+ */
+export type UEMCardMergePlan = {
+    // cards of the landing page to keep, the others are removed
+    keep: number[];
+    // cards of the landing page replaced, in place, by a card of the template
+    replace: { index: number; templateIndex: number }[];
+    // cards of the template added after the cards of the landing page
+    add: number[];
+};
 
 export class UEMBuilder {
     static readonly GLOBAL_ACTIONS_LABEL = l10n.t('Global Actions');
 
-    // TODO: Create a typed data structure for this instead of any
-    private cards: any[] = [];
+    static readonly DEFAULT_API_NAME = 'landing_page';
+    static readonly DEFAULT_TARGET = 'mcf__native';
+    static readonly DEFAULT_BACKGROUND_COLOR = '#F3F2f2';
+
+    private options: Required<UEMBuilderOptions>;
+
+    private cards: UEMCard[] = [];
+
+    // The landing page the builder was loaded from, if any. Its cards are in `cards`.
+    private document: UEMDocument | undefined;
+
+    // The container of the document whose cards are in `cards`.
+    private containerIndex = 0;
 
     static readonly VALUE_TYPES = [
         'Int',
@@ -42,7 +90,48 @@ export class UEMBuilder {
 
     static readonly DEFAULT_VALUE_TYPE = 'StringValue';
 
-    private getFieldType(field: Field): string {
+    /**
+     * @param options The settings of the landing page. A new id is generated unless one is given.
+     */
+    constructor(options: UEMBuilderOptions = {}) {
+        this.options = {
+            id: options.id ?? randomUUID(),
+            apiName: options.apiName ?? UEMBuilder.DEFAULT_API_NAME,
+            target: options.target ?? UEMBuilder.DEFAULT_TARGET,
+            backgroundColor:
+                options.backgroundColor ?? UEMBuilder.DEFAULT_BACKGROUND_COLOR
+        };
+    }
+
+    /**
+     * Derives the apiName (and static resource name) of a landing page from the persona it is for,
+     * ie: "Field Sales" gives "landing_page_field_sales".
+     */
+    static toApiName(persona: string): string {
+        const suffix = persona
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '_')
+            .replace(/^_+|_+$/g, '');
+        return suffix
+            ? `${UEMBuilder.DEFAULT_API_NAME}_${suffix}`
+            : UEMBuilder.DEFAULT_API_NAME;
+    }
+
+    /**
+     * @returns true if the name can be used for a static resource: it starts with a letter, has only
+     * alphanumeric characters and single underscores, and does not end with an underscore.
+     */
+    static isValidApiName(apiName: string): boolean {
+        return (
+            /^[A-Za-z](?:[A-Za-z0-9]|_(?!_))*$/.test(apiName) &&
+            !apiName.endsWith('_')
+        );
+    }
+
+    /**
+     * @returns the UEM value type of a field, derived from its describe type, ie: "DateTimeValue".
+     */
+    static getFieldType(field: Field): string {
         const t = UEMBuilder.VALUE_TYPES.find(
             (t) => t.toLowerCase() === field.type.toLowerCase()
         );
@@ -55,10 +144,86 @@ export class UEMBuilder {
         return UEMBuilder.DEFAULT_VALUE_TYPE;
     }
 
+    /**
+     * Reconstructs a builder from an existing landing page, so that cards can be added, removed or
+     * reordered without losing prior work. Everything but the cards of the container, including
+     * unknown components, is kept as is.
+     * @param json The landing page, or its json text.
+     * @param containerIndex The position of the container of cards under the view, the first by default.
+     */
+    static fromJson(
+        json: UEMDocument | string,
+        containerIndex: number = 0
+    ): UEMBuilder {
+        const document: UEMDocument = JSON.parse(
+            typeof json === 'string' ? json : JSON.stringify(json)
+        );
+        const container =
+            document?.view?.regions?.components?.components?.[containerIndex];
+        const cards = container?.regions?.components?.components;
+        if (!Array.isArray(cards)) {
+            throw new Error(
+                l10n.t(
+                    'The landing page has no container of cards under its view.'
+                )
+            );
+        }
+
+        const builder = new UEMBuilder();
+        builder.document = document;
+        builder.containerIndex = containerIndex;
+        builder.cards = cards;
+        return builder;
+    }
+
+    /**
+     * @returns the label of a card as shown in the app, or its name if it has none.
+     */
+    static getCardLabel(card: UEMCard): string {
+        return (
+            card.properties?.label ??
+            card.regions?.components?.components?.[0]?.label ??
+            card.name
+        );
+    }
+
+    getCards(): UEMCard[] {
+        return [...this.cards];
+    }
+
+    setCards(cards: UEMCard[]): UEMBuilder {
+        this.cards = [...cards];
+        return this;
+    }
+
+    /**
+     * @param index The position of the card, at the end by default.
+     */
+    insertCard(card: UEMCard, index: number = this.cards.length): UEMBuilder {
+        this.checkCardIndex(index, this.cards.length);
+        this.cards.splice(index, 0, card);
+        return this;
+    }
+
+    removeCard(index: number): UEMBuilder {
+        this.checkCardIndex(index, this.cards.length - 1);
+        this.cards.splice(index, 1);
+        return this;
+    }
+
+    moveCard(fromIndex: number, toIndex: number): UEMBuilder {
+        this.checkCardIndex(fromIndex, this.cards.length - 1);
+        this.checkCardIndex(toIndex, this.cards.length - 1);
+        const [card] = this.cards.splice(fromIndex, 1);
+        this.cards.splice(toIndex, 0, card);
+        return this;
+    }
+
     addGlobalActionCard(): UEMBuilder {
-        const listUEM = {
+        const names = this.getComponentNames();
+        const listUEM: UEMActionList = {
             definition: 'mcfp/actionList',
-            name: 'actions_list',
+            name: this.uniqueName('actions_list', names),
             label: UEMBuilder.GLOBAL_ACTIONS_LABEL,
             properties: {},
             regions: {}
@@ -66,7 +231,7 @@ export class UEMBuilder {
 
         this.cards.push(
             this.cardUEM(
-                'global_actions',
+                this.uniqueName('global_actions', names),
                 UEMBuilder.GLOBAL_ACTIONS_LABEL,
                 listUEM
             )
@@ -80,36 +245,16 @@ export class UEMBuilder {
         fieldsToDisplay: Field[],
         orderByField: string = 'Name',
         isAscending: boolean = true,
-        size = 3
+        size = 3,
+        swipeActions: string[] = []
     ): UEMBuilder {
-        const fields: any = {};
-        const fieldMap: any = {};
-
-        // add primary field (require at least 1 field)
-        fields[fieldsToDisplay[0].apiName] = this.getFieldType(
-            fieldsToDisplay[0]
-        );
-        fieldMap.mainField = fieldsToDisplay[0].apiName;
-
-        // add secondary field
-        if (fieldsToDisplay.length > 1) {
-            fields[fieldsToDisplay[1].apiName] = this.getFieldType(
-                fieldsToDisplay[1]
-            );
-            fieldMap.subField1 = fieldsToDisplay[1].apiName;
-        }
+        const { fields, fieldMap } = this.fieldsUEM(fieldsToDisplay);
+        const names = this.getComponentNames();
+        const cardName = this.uniqueName(labelPlural, names);
 
-        // add tertiary field
-        if (fieldsToDisplay.length > 2) {
-            fields[fieldsToDisplay[2].apiName] = this.getFieldType(
-                fieldsToDisplay[2]
-            );
-            fieldMap.subField2 = fieldsToDisplay[2].apiName;
-        }
-
-        const listUEM = {
+        const listUEM: UEMList = {
             definition: 'mcf/list',
-            name: `${objectApiName.toLowerCase()}_list`,
+            name: this.uniqueName(`${objectApiName.toLowerCase()}_list`, names),
             label: labelPlural,
             properties: {
                 size,
@@ -124,7 +269,10 @@ export class UEMBuilder {
                     components: [
                         {
                             definition: 'mcf/recordRow',
-                            name: `${objectApiName.toLowerCase()}_row`,
+                            name: this.uniqueName(
+                                `${objectApiName.toLowerCase()}_row`,
+                                names
+                            ),
                             label: `${objectApiName} Row`,
                             properties: {},
                             regions: {}
@@ -134,30 +282,229 @@ export class UEMBuilder {
             }
         };
 
-        this.cards.push(this.cardUEM(labelPlural, labelPlural, listUEM));
+        if (swipeActions.length > 0) {
+            listUEM.properties.swipeActions = swipeActions;
+        }
+
+        this.cards.push(this.cardUEM(cardName, labelPlural, listUEM));
         return this;
     }
 
     addTimedListCard(
-        sobject: string = 'Account',
-        size: number = 5,
-        isAscending: boolean = true
+        objectApiName: string,
+        labelPlural: string,
+        startTimeField: Field,
+        endTimeField: Field,
+        fieldsToDisplay: Field[],
+        orderByField: string = startTimeField.apiName,
+        isAscending: boolean = true,
+        size = 5
     ): UEMBuilder {
+        const { fields, fieldMap } = this.fieldsUEM(fieldsToDisplay);
+
+        // the start and end fields are always queried, even if not displayed
+        fields[startTimeField.apiName] =
+            UEMBuilder.getFieldType(startTimeField);
+        fields[endTimeField.apiName] = UEMBuilder.getFieldType(endTimeField);
+
+        const names = this.getComponentNames();
+        const cardName = this.uniqueName(labelPlural, names);
+
+        const listUEM: UEMTimedList = {
+            definition: 'mcf/timedList',
+            name: this.uniqueName(
+                `${objectApiName.toLowerCase()}_timed_list`,
+                names
+            ),
+            label: labelPlural,
+            properties: {
+                size,
+                objectApiName,
+                startTimeField: startTimeField.apiName,
+                endTimeField: endTimeField.apiName,
+                orderBy: [{ [orderByField]: isAscending ? 'ASC' : 'DESC' }],
+                fields,
+                fieldMap
+            },
+            regions: {
+                components: {
+                    name: 'components',
+                    components: [
+                        {
+                            definition: 'mcf/timedRecordRow',
+                            name: this.uniqueName(
+                                `${objectApiName.toLowerCase()}_timed_row`,
+                                names
+                            ),
+                            label: `${objectApiName} Row`,
+                            properties: {},
+                            regions: {}
+                        }
+                    ]
+                }
+            }
+        };
+
+        this.cards.push(this.cardUEM(cardName, labelPlural, listUEM));
         return this;
     }
 
-    build(): any {
-        let uem = this.uemTemplate();
-        const cmps =
-            uem.view.regions.components.components[0].regions.components
-                .components;
-        for (const card of this.cards) {
-            cmps.push(card);
-        }
+    build(): UEMDocument {
+        const uem: UEMDocument = this.document
+            ? JSON.parse(JSON.stringify(this.document))
+            : this.uemTemplate();
+        const container =
+            uem.view.regions.components.components[this.containerIndex];
+        container.regions.components.components = JSON.parse(
+            JSON.stringify(this.cards)
+        );
         return uem;
     }
 
-    private cardUEM(name: string, label: string, ...children: any[]): any {
+    /**
+     * @returns the landing page json, always formatted the same way so that diffs stay reviewable.
+     */
+    toJson(): string {
+        return JSON.stringify(this.build(), null, JSON_INDENTATION_SPACES);
+    }
+
+    /**
+     * Merges the cards of a template into the landing page. A card both kept and replaced is replaced.
+     * @param templateCards The cards of the template, which are copied and renamed where their names
+     * are already taken.
+     */
+    mergeCards(templateCards: UEMCard[], plan: UEMCardMergePlan): UEMBuilder {
+        const copies: UEMCard[] = [];
+        const copy = (templateIndex: number): UEMCard => {
+            this.checkCardIndex(templateIndex, templateCards.length - 1);
+            const card: UEMCard = JSON.parse(
+                JSON.stringify(templateCards[templateIndex])
+            );
+            copies.push(card);
+            return card;
+        };
+        plan.keep.forEach((index) =>
+            this.checkCardIndex(index, this.cards.length - 1)
+        );
+        plan.replace.forEach(({ index }) =>
+            this.checkCardIndex(index, this.cards.length - 1)
+        );
+
+        const cards: UEMCard[] = [];
+        this.cards.forEach((card, index) => {
+            const replacement = plan.replace.find(
+                (replace) => replace.index === index
+            );
+            if (replacement) {
+                cards.push(copy(replacement.templateIndex));
+            } else if (plan.keep.includes(index)) {
+                cards.push(card);
+            }
+        });
+        cards.push(...plan.add.map(copy));
+
+        this.cards = cards.filter((card) => !copies.includes(card));
+        const names = this.getComponentNames();
+        copies.forEach((card) => this.renameComponent(card, names));
+        this.cards = cards;
+        return this;
+    }
+
+    private checkCardIndex(index: number, maxIndex: number) {
+        if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+            throw new Error(
+                l10n.t("There is no card at the position '{0}'.", index)
+            );
+        }
+    }
+
+    /**
+     * Builds the `fields` and `fieldMap` properties shared by the list cards. The first
+     * field is the primary (required), followed by the optional secondary and tertiary.
+     */
+    private fieldsUEM(fieldsToDisplay: Field[]): {
+        fields: UEMFields;
+        fieldMap: UEMFieldMap;
+    } {
+        const fields: UEMFields = {};
+
+        // add primary field (require at least 1 field)
+        fields[fieldsToDisplay[0].apiName] = UEMBuilder.getFieldType(
+            fieldsToDisplay[0]
+        );
+        const fieldMap: UEMFieldMap = {
+            mainField: fieldsToDisplay[0].apiName
+        };
+
+        // add secondary field
+        if (fieldsToDisplay.length > 1) {
+            fields[fieldsToDisplay[1].apiName] = UEMBuilder.getFieldType(
+                fieldsToDisplay[1]
+            );
+            fieldMap.subField1 = fieldsToDisplay[1].apiName;
+        }
+
+        // add tertiary field
+        if (fieldsToDisplay.length > 2) {
+            fields[fieldsToDisplay[2].apiName] = UEMBuilder.getFieldType(
+                fieldsToDisplay[2]
+            );
+            fieldMap.subField2 = fieldsToDisplay[2].apiName;
+        }
+
+        return { fields, fieldMap };
+    }
+
+    /**
+     * @returns the names of the components of the landing page, which must be unique.
+     */
+    private getComponentNames(): Set<string> {
+        const names = new Set<string>();
+        const collect = (component: UEMParsedComponent) => {
+            if (component.name !== undefined) {
+                names.add(component.name);
+            }
+            component.components.forEach(collect);
+        };
+        const view = UEMParser.parse(this.build()).view;
+        if (view) {
+            collect(view);
+        }
+        return names;
+    }
+
+    /**
+     * @returns the name, suffixed with _2, _3... if a component already has it, and reserves it.
+     */
+    private uniqueName(name: string, names: Set<string>): string {
+        let unique = name;
+        for (let suffix = 2; names.has(unique); suffix++) {
+            unique = `${name}_${suffix}`;
+        }
+        names.add(unique);
+        return unique;
+    }
+
+    /**
+     * Gives the component, and the components in its regions, names no other component has.
+     */
+    private renameComponent(component: UEMComponent, names: Set<string>) {
+        component.name = this.uniqueName(component.name, names);
+        const regions = Object.values(component.regions ?? {}) as Partial<
+            UEMRegion<UEMComponent>
+        >[];
+        for (const region of regions) {
+            (region?.components ?? []).forEach((child) =>
+                this.renameComponent(child, names)
+            );
+        }
+    }
+
+    private cardUEM(
+        name: string,
+        label: string,
+        ...children: UEMCardContent[]
+    ): UEMCard {
         return {
             definition: 'mcf/card',
             name: name,
@@ -171,7 +518,7 @@ export class UEMBuilder {
         };
     }
 
-    private uemTemplate(): any {
+    private uemTemplate(): UEMDocument {
         return {
             view: {
                 definition: 'generated/uem_output',
@@ -185,12 +532,13 @@ export class UEMBuilder {
                                 definition: 'mcf/container',
                                 name: 'container',
                                 properties: {
-                                    backgroundColor: '#F3F2f2'
+                                    backgroundColor:
+                                        this.options.backgroundColor
                                 },
                                 regions: {
                                     components: {
                                         name: 'components',
-                                        components: [] as any[]
+                                        components: []
                                     }
                                 }
                             }
@@ -198,9 +546,9 @@ export class UEMBuilder {
                     }
                 }
             },
-            target: 'mcf__native',
-            apiName: 'landing_page',
-            id: '611ca737-feb2-41c8-8c87-4f48a3415e3b'
+            target: this.options.target,
+            apiName: this.options.apiName,
+            id: this.options.id
         };
     }
 }
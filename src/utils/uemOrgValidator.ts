@@ -0,0 +1,202 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { l10n } from 'vscode';
+import { Field, OrgUtils } from './orgUtils';
+import { UEMBuilder } from './uemBuilder';
+import { UEMPath, UEMProblem, UEMValidator } from './uemValidator';
+
+type ListReference = {
+    path: UEMPath;
+    properties: { [key: string]: unknown };
+};
+
+/**
+ * Cross-checks the sObjects and fields referenced by a landing page against the describe metadata
+ * of the connected org.
+ */
+export class UEMOrgValidator {
+    /**
+     * @param json The parsed content of a landing page.
+     * @returns the problems found. Rejects if the org metadata cannot be retrieved.
+     */
+    static async validate(json: unknown): Promise<UEMProblem[]> {
+        const problems: UEMProblem[] = [];
+        const lists = UEMOrgValidator.findLists(json, []);
+        if (lists.length === 0) {
+            return problems;
+        }
+
+        const sobjects = new Set(
+            (await OrgUtils.getSobjects()).map((sobject) => sobject.apiName)
+        );
+        // describe each sObject only once, even if it is on several cards
+        const describedFields = new Map<string, Promise<Field[]>>();
+
+        for (const list of lists) {
+            const objectApiName = list.properties.objectApiName;
+            if (typeof objectApiName !== 'string') {
+                // already reported by UEMValidator
+                continue;
+            }
+            if (!sobjects.has(objectApiName)) {
+                problems.push(
+                    UEMValidator.error(
+                        l10n.t(
+                            "The sObject '{0}' does not exist in the org.",
+                            objectApiName
+                        ),
+                        [...list.path, 'objectApiName']
+                    )
+                );
+                continue;
+            }
+
+            if (!describedFields.has(objectApiName)) {
+                describedFields.set(
+                    objectApiName,
+                    OrgUtils.getFieldsForSObject(objectApiName)
+                );
+            }
+            const fields = await describedFields.get(objectApiName)!;
+            UEMOrgValidator.validateFields(
+                objectApiName,
+                list,
+                new Map(fields.map((field) => [field.apiName, field])),
+                problems
+            );
+        }
+
+        return problems;
+    }
+
+    private static validateFields(
+        objectApiName: string,
+        list: ListReference,
+        fields: Map<string, Field>,
+        problems: UEMProblem[]
+    ) {
+        const unknownField = (fieldApiName: string, path: UEMPath) => {
+            return UEMValidator.error(
+                l10n.t(
+                    "The field '{0}' does not exist on the sObject '{1}'.",
+                    fieldApiName,
+                    objectApiName
+                ),
+                path
+            );
+        };
+        const properties = list.properties;
+        const propertiesPath = [...list.path, 'properties'];
+
+        if (UEMValidator.isObject(properties.fields)) {
+            for (const fieldApiName in properties.fields) {
+                const path = [...propertiesPath, 'fields', fieldApiName];
+                const field = fields.get(fieldApiName);
+                if (!field) {
+                    problems.push({
+                        ...unknownField(fieldApiName, path),
+                        onKey: true
+                    });
+                    continue;
+                }
+
+                const valueType = properties.fields[fieldApiName];
+                const expectedValueType = UEMBuilder.getFieldType(field);
+                if (valueType !== expectedValueType) {
+                    problems.push({
+                        ...UEMValidator.error(
+                            l10n.t(
+                                "The field '{0}' is of type '{1}', so its value type should be '{2}'.",
+                                fieldApiName,
+                                field.type,
+                                expectedValueType
+                            ),
+                            path
+                        ),
+                        expectedValueType
+                    });
+                }
+            }
+        }
+
+        if (UEMValidator.isObject(properties.fieldMap)) {
+            for (const key in properties.fieldMap) {
+                const fieldApiName = properties.fieldMap[key];
+                if (
+                    typeof fieldApiName === 'string' &&
+                    !fields.has(fieldApiName)
+                ) {
+                    problems.push(
+                        unknownField(fieldApiName, [
+                            ...propertiesPath,
+                            'fieldMap',
+                            key
+                        ])
+                    );
+                }
+            }
+        }
+
+        for (const key of ['startTimeField', 'endTimeField']) {
+            const fieldApiName = properties[key];
+            if (typeof fieldApiName === 'string' && !fields.has(fieldApiName)) {
+                problems.push(
+                    unknownField(fieldApiName, [...propertiesPath, key])
+                );
+            }
+        }
+
+        if (Array.isArray(properties.orderBy)) {
+            properties.orderBy.forEach((ordering, index) => {
+                if (!UEMValidator.isObject(ordering)) {
+                    return;
+                }
+                for (const fieldApiName in ordering) {
+                    if (!fields.has(fieldApiName)) {
+                        problems.push({
+                            ...unknownField(fieldApiName, [
+                                ...propertiesPath,
+                                'orderBy',
+                                index,
+                                fieldApiName
+                            ]),
+                            onKey: true
+                        });
+                    }
+                }
+            });
+        }
+    }
+
+    /**
+     * @returns the list components (with an `objectApiName`) found anywhere in the json, with their paths.
+     */
+    private static findLists(json: unknown, path: UEMPath): ListReference[] {
+        const lists: ListReference[] = [];
+        if (Array.isArray(json)) {
+            json.forEach((value, index) => {
+                lists.push(
+                    ...UEMOrgValidator.findLists(value, [...path, index])
+                );
+            });
+        } else if (UEMValidator.isObject(json)) {
+            if (
+                UEMValidator.isObject(json.properties) &&
+                'objectApiName' in json.properties
+            ) {
+                lists.push({ path, properties: json.properties });
+            }
+            for (const key in json) {
+                lists.push(
+                    ...UEMOrgValidator.findLists(json[key], [...path, key])
+                );
+            }
+        }
+        return lists;
+    }
+}
@@ -5,13 +5,235 @@
  * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
  */
 
+import {
+    findNodeAtLocation,
+    getNodeValue,
+    parseTree,
+    Node,
+    ParseError
+} from 'jsonc-parser';
+import type { UEMCard, UEMDocument } from '../types';
+import { UEMPath, UEMValidator } from './uemValidator';
+
+// Location of a value in the landing page json text.
+export type UEMSourceLocation = {
+    offset: number;
+    length: number;
+};
+
+export type UEMParsedField = {
+    apiName: string;
+    // ie: "StringValue"
+    valueType: string | undefined;
+    location?: UEMSourceLocation;
+};
+
+export type UEMParsedOrdering = {
+    field: string;
+    direction: string | undefined;
+    location?: UEMSourceLocation;
+};
+
+export type UEMParsedComponent = {
+    definition: string | undefined;
+    name: string | undefined;
+    label: string | undefined;
+    objectApiName: string | undefined;
+    fields: UEMParsedField[];
+    orderBy: UEMParsedOrdering[];
+    size: number | undefined;
+    // the components of all the regions, in order
+    components: UEMParsedComponent[];
+    path: UEMPath;
+    location?: UEMSourceLocation;
+};
+
+export type UEMParseResult = {
+    view: UEMParsedComponent | undefined;
+    // A card reports the object, fields, order-by and size of the first list it contains.
+    cards: UEMParsedComponent[];
+    sObjects: string[];
+};
+
 export class UEMParser {
-    public static findSObjects(json: Object): Array<string> {
+    public static findSObjects(json: UEMDocument | Object): Array<string> {
         const sObjects = UEMParser.findObjectsWithKey(json, 'objectApiName');
 
         return sObjects;
     }
 
+    /**
+     * Returns the cards of the landing page, in display order. Cards live in the
+     * regions of the container(s) directly under the view.
+     */
+    public static findCards(uem: UEMDocument): Array<UEMCard> {
+        const cards: Array<UEMCard> = [];
+        const containers = uem.view?.regions?.components?.components ?? [];
+        for (const container of containers) {
+            cards.push(...(container.regions?.components?.components ?? []));
+        }
+        return cards;
+    }
+
+    /**
+     * Parses the text of a landing page. Unlike `parse`, the result carries the locations of
+     * the components, fields and orderings in the text.
+     * @returns undefined if the text is not valid json.
+     */
+    public static parseText(text: string): UEMParseResult | undefined {
+        const errors: ParseError[] = [];
+        const root = parseTree(text, errors, { disallowComments: true });
+        if (!root || errors.length > 0) {
+            return undefined;
+        }
+        return UEMParser.parse(getNodeValue(root), root);
+    }
+
+    /**
+     * Summarizes the landing page: every component with the object, fields, order-by and size it
+     * references. Malformed parts are skipped, UEMValidator reports them.
+     * @param json The parsed content of a landing page.
+     * @param root The json tree of the landing page text, to report locations.
+     */
+    public static parse(json: unknown, root?: Node): UEMParseResult {
+        const locate = (path: UEMPath): UEMSourceLocation | undefined => {
+            const node = root ? findNodeAtLocation(root, path) : undefined;
+            return node
+                ? { offset: node.offset, length: node.length }
+                : undefined;
+        };
+
+        const view =
+            UEMValidator.isObject(json) && UEMValidator.isObject(json.view)
+                ? UEMParser.parseComponent(json.view, ['view'], locate)
+                : undefined;
+
+        const cards: UEMParsedComponent[] = [];
+        for (const container of view?.components ?? []) {
+            for (const card of container.components) {
+                const list = UEMParser.findList(card);
+                cards.push(
+                    list
+                        ? {
+                              ...card,
+                              objectApiName: list.objectApiName,
+                              fields: list.fields,
+                              orderBy: list.orderBy,
+                              size: list.size
+                          }
+                        : card
+                );
+            }
+        }
+
+        return { view, cards, sObjects: UEMParser.findSObjects(json ?? {}) };
+    }
+
+    private static parseComponent(
+        component: { [key: string]: unknown },
+        path: UEMPath,
+        locate: (path: UEMPath) => UEMSourceLocation | undefined
+    ): UEMParsedComponent {
+        const optionalString = (value: unknown) =>
+            typeof value === 'string' ? value : undefined;
+        const properties = UEMValidator.isObject(component.properties)
+            ? component.properties
+            : {};
+        const propertiesPath = [...path, 'properties'];
+
+        const fields: UEMParsedField[] = [];
+        if (UEMValidator.isObject(properties.fields)) {
+            for (const apiName in properties.fields) {
+                fields.push({
+                    apiName,
+                    valueType: optionalString(properties.fields[apiName]),
+                    location: locate([...propertiesPath, 'fields', apiName])
+                });
+            }
+        }
+
+        const orderBy: UEMParsedOrdering[] = [];
+        if (Array.isArray(properties.orderBy)) {
+            properties.orderBy.forEach((ordering, index) => {
+                if (!UEMValidator.isObject(ordering)) {
+                    return;
+                }
+                for (const field in ordering) {
+                    orderBy.push({
+                        field,
+                        direction: optionalString(ordering[field]),
+                        location: locate([...propertiesPath, 'orderBy', index])
+                    });
+                }
+            });
+        }
+
+        const components: UEMParsedComponent[] = [];
+        if (UEMValidator.isObject(component.regions)) {
+            for (const regionName in component.regions) {
+                const region = component.regions[regionName];
+                if (
+                    !UEMValidator.isObject(region) ||
+                    !Array.isArray(region.components)
+                ) {
+                    continue;
+                }
+                region.components.forEach((child, index) => {
+                    if (UEMValidator.isObject(child)) {
+                        components.push(
+                            UEMParser.parseComponent(
+                                child,
+                                [
+                                    ...path,
+                                    'regions',
+                                    regionName,
+                                    'components',
+                                    index
+                                ],
+                                locate
+                            )
+                        );
+                    }
+                });
+            }
+        }
+
+        return {
+            definition: optionalString(component.definition),
+            name: optionalString(component.name),
+            // cards keep their label in their properties
+            label:
+                optionalString(component.label) ??
+                optionalString(properties.label),
+            objectApiName: optionalString(properties.objectApiName),
+            fields,
+            orderBy,
+            size:
+                typeof properties.size === 'number'
+                    ? properties.size
+                    : undefined,
+            components,
+            path,
+            location: locate(path)
+        };
+    }
+
+    // Depth-first search of the first component bound to an sObject.
+    private static findList(
+        component: UEMParsedComponent
+    ): UEMParsedComponent | undefined {
+        if (component.objectApiName !== undefined) {
+            return component;
+        }
+        for (const child of component.components) {
+            const list = UEMParser.findList(child);
+            if (list) {
+                return list;
+            }
+        }
+        return undefined;
+    }
+
     static findObjectsWithKey(
         nestedJsonBlock: any,
         keyToMatch: string
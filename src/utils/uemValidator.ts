@@ -0,0 +1,381 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import { l10n } from 'vscode';
+import type { UEMDefinition } from '../types';
+
+// Path of a value in the landing page json, ie: ['view', 'regions', 'components', 'components', 0]
+export type UEMPath = (string | number)[];
+
+export type UEMProblemSeverity = 'error' | 'warning';
+
+export type UEMProblem = {
+    message: string;
+    path: UEMPath;
+    severity: UEMProblemSeverity;
+    // report the problem on the property key rather than on its value
+    onKey?: boolean;
+    // the value type the field should be declared with, ie: "DateTimeValue"
+    expectedValueType?: string;
+};
+
+/**
+ * Structural checks of a landing page, based on the UEM emitted by UEMBuilder.
+ */
+export class UEMValidator {
+    static readonly KNOWN_DEFINITIONS: UEMDefinition[] = [
+        'generated/uem_output',
+        'mcf/container',
+        'mcf/card',
+        'mcf/list',
+        'mcf/recordRow',
+        'mcf/timedList',
+        'mcf/timedRecordRow',
+        'mcfp/actionList'
+    ];
+
+    static readonly LIST_DEFINITIONS: UEMDefinition[] = [
+        'mcf/list',
+        'mcf/timedList'
+    ];
+
+    static readonly MIN_LIST_SIZE = 3;
+    static readonly MAX_LIST_SIZE = 8;
+
+    static readonly ORDER_BY_DIRECTIONS = ['ASC', 'DESC'];
+
+    /**
+     * @param json The parsed content of a landing page.
+     * @returns the problems found, in document order.
+     */
+    static validate(json: unknown): UEMProblem[] {
+        const problems: UEMProblem[] = [];
+
+        if (!UEMValidator.isObject(json)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t('The landing page must be a JSON object.'),
+                    []
+                )
+            );
+            return problems;
+        }
+
+        for (const key of ['apiName', 'id', 'target']) {
+            if (typeof json[key] !== 'string') {
+                problems.push(
+                    UEMValidator.error(
+                        l10n.t(
+                            "The landing page is missing the '{0}' string.",
+                            key
+                        ),
+                        []
+                    )
+                );
+            }
+        }
+
+        if (!UEMValidator.isObject(json.view)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The landing page is missing its 'view'."),
+                    []
+                )
+            );
+            return problems;
+        }
+
+        UEMValidator.validateComponent(
+            json.view,
+            ['view'],
+            new Set(),
+            problems
+        );
+        return problems;
+    }
+
+    private static validateComponent(
+        component: unknown,
+        path: UEMPath,
+        names: Set<string>,
+        problems: UEMProblem[]
+    ) {
+        if (!UEMValidator.isObject(component)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t('A component must be a JSON object.'),
+                    path
+                )
+            );
+            return;
+        }
+
+        const definition = component.definition;
+        if (typeof definition !== 'string') {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The component is missing its 'definition'."),
+                    path
+                )
+            );
+        } else if (
+            !UEMValidator.KNOWN_DEFINITIONS.includes(
+                definition as UEMDefinition
+            )
+        ) {
+            problems.push(
+                UEMValidator.warning(
+                    l10n.t("Unknown component definition '{0}'.", definition),
+                    [...path, 'definition']
+                )
+            );
+        }
+
+        const name = component.name;
+        if (typeof name !== 'string') {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The component is missing its 'name'."),
+                    path
+                )
+            );
+        } else if (names.has(name)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("Duplicate component name '{0}'.", name),
+                    [...path, 'name']
+                )
+            );
+        } else {
+            names.add(name);
+        }
+
+        if (
+            UEMValidator.LIST_DEFINITIONS.includes(definition as UEMDefinition)
+        ) {
+            UEMValidator.validateListProperties(
+                definition as UEMDefinition,
+                component.properties,
+                [...path, 'properties'],
+                problems
+            );
+        }
+
+        if (component.regions === undefined) {
+            return;
+        }
+        if (!UEMValidator.isObject(component.regions)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The component 'regions' must be a JSON object."),
+                    [...path, 'regions']
+                )
+            );
+            return;
+        }
+        for (const regionName in component.regions) {
+            const region = component.regions[regionName];
+            const regionPath = [...path, 'regions', regionName];
+            if (
+                !UEMValidator.isObject(region) ||
+                !Array.isArray(region.components)
+            ) {
+                problems.push(
+                    UEMValidator.error(
+                        l10n.t(
+                            "The region '{0}' must have a 'components' array.",
+                            regionName
+                        ),
+                        regionPath
+                    )
+                );
+                continue;
+            }
+            region.components.forEach((child, index) => {
+                UEMValidator.validateComponent(
+                    child,
+                    [...regionPath, 'components', index],
+                    names,
+                    problems
+                );
+            });
+        }
+    }
+
+    private static validateListProperties(
+        definition: UEMDefinition,
+        properties: unknown,
+        path: UEMPath,
+        problems: UEMProblem[]
+    ) {
+        if (!UEMValidator.isObject(properties)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The list is missing its 'properties'."),
+                    path
+                )
+            );
+            return;
+        }
+
+        if (
+            typeof properties.objectApiName !== 'string' ||
+            properties.objectApiName === ''
+        ) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The list is missing its 'objectApiName'."),
+                    path
+                )
+            );
+        }
+
+        const fields = UEMValidator.isObject(properties.fields)
+            ? properties.fields
+            : undefined;
+        if (!fields) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The list is missing its 'fields'."),
+                    path
+                )
+            );
+        }
+
+        if (UEMValidator.isObject(properties.fieldMap)) {
+            for (const key in properties.fieldMap) {
+                const field = properties.fieldMap[key];
+                if (fields && !(typeof field === 'string' && field in fields)) {
+                    problems.push(
+                        UEMValidator.error(
+                            l10n.t(
+                                "The field '{0}' of the fieldMap is not in 'fields'.",
+                                `${field}`
+                            ),
+                            [...path, 'fieldMap', key]
+                        )
+                    );
+                }
+            }
+        } else {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t("The list is missing its 'fieldMap'."),
+                    path
+                )
+            );
+        }
+
+        if (definition === 'mcf/timedList') {
+            for (const key of ['startTimeField', 'endTimeField']) {
+                const field = properties[key];
+                if (typeof field !== 'string') {
+                    problems.push(
+                        UEMValidator.error(
+                            l10n.t("The timed list is missing its '{0}'.", key),
+                            path
+                        )
+                    );
+                } else if (fields && !(field in fields)) {
+                    problems.push(
+                        UEMValidator.error(
+                            l10n.t(
+                                "The field '{0}' of '{1}' is not in 'fields'.",
+                                field,
+                                key
+                            ),
+                            [...path, key]
+                        )
+                    );
+                }
+            }
+        }
+
+        if (properties.orderBy !== undefined) {
+            UEMValidator.validateOrderBy(
+                properties.orderBy,
+                [...path, 'orderBy'],
+                problems
+            );
+        }
+
+        const size = properties.size;
+        if (
+            size !== undefined &&
+            (typeof size !== 'number' ||
+                !Number.isInteger(size) ||
+                size < UEMValidator.MIN_LIST_SIZE ||
+                size > UEMValidator.MAX_LIST_SIZE)
+        ) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t(
+                        "The 'size' must be a whole number from {0} to {1}.",
+                        UEMValidator.MIN_LIST_SIZE,
+                        UEMValidator.MAX_LIST_SIZE
+                    ),
+                    [...path, 'size']
+                )
+            );
+        }
+    }
+
+    // The expected shape is an array of single-field objects, ie: [{ "Name": "ASC" }]
+    private static validateOrderBy(
+        orderBy: unknown,
+        path: UEMPath,
+        problems: UEMProblem[]
+    ) {
+        if (!Array.isArray(orderBy)) {
+            problems.push(
+                UEMValidator.error(
+                    l10n.t(
+                        'The \'orderBy\' must be an array, ie: [{ "Name": "ASC" }].'
+                    ),
+                    path
+                )
+            );
+            return;
+        }
+
+        orderBy.forEach((ordering, index) => {
+            const keys = UEMValidator.isObject(ordering)
+                ? Object.keys(ordering)
+                : [];
+            if (
+                !UEMValidator.isObject(ordering) ||
+                keys.length !== 1 ||
+                !UEMValidator.ORDER_BY_DIRECTIONS.includes(
+                    ordering[keys[0]] as string
+                )
+            ) {
+                problems.push(
+                    UEMValidator.error(
+                        l10n.t(
+                            "Each 'orderBy' entry must map a single field to 'ASC' or 'DESC'."
+                        ),
+                        [...path, index]
+                    )
+                );
+            }
+        });
+    }
+
+    static isObject(value: unknown): value is { [key: string]: unknown } {
+        return (
+            typeof value === 'object' && value !== null && !Array.isArray(value)
+        );
+    }
+
+    static error(message: string, path: UEMPath): UEMProblem {
+        return { message, path, severity: 'error' };
+    }
+
+    static warning(message: string, path: UEMPath): UEMProblem {
+        return { message, path, severity: 'warning' };
+    }
+}
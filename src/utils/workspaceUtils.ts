@@ -37,6 +37,9 @@ export class WorkspaceUtils {
         'quickActions'
     );
 
+    static readonly QUICK_ACTION_METADATA_FILE_EXTENSION =
+        '.quickAction-meta.xml';
+
     static readonly LWC_TEMPLATE_PATH = path.join('resources', 'templates');
 
     static getWorkspaceDir(): string {
@@ -110,6 +113,35 @@ export class WorkspaceUtils {
         }
     }
 
+    /**
+     * @returns the api names of the quick actions defined in the project, ie: `Account.view`.
+     */
+    static getQuickActionNames(): string[] {
+        try {
+            const quickActionsPath = path.join(
+                this.getWorkspaceDir(),
+                WorkspaceUtils.QUICK_ACTIONS_PATH
+            );
+            return fs
+                .readdirSync(quickActionsPath)
+                .filter((filename) =>
+                    filename.endsWith(
+                        WorkspaceUtils.QUICK_ACTION_METADATA_FILE_EXTENSION
+                    )
+                )
+                .map((filename) =>
+                    filename.slice(
+                        0,
+                        -WorkspaceUtils.QUICK_ACTION_METADATA_FILE_EXTENSION
+                            .length
+                    )
+                )
+                .sort();
+        } catch {
+            return [];
+        }
+    }
+
     static isSfdxProjectOpened(): boolean {
         try {
             return fs.existsSync(
@@ -0,0 +1,375 @@
+/*
+ * Copyright (c) 2024, salesforce.com, inc.
+ * All rights reserved.
+ * SPDX-License-Identifier: MIT
+ * For full license text, see the LICENSE file in the repo root or https://opensource.org/licenses/MIT
+ */
+
+import {
+    commands,
+    l10n,
+    window,
+    workspace,
+    Event,
+    EventEmitter,
+    ExtensionContext,
+    ProgressLocation,
+    Range,
+    RelativePattern,
+    Selection,
+    TextEditorRevealType,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+    Uri
+} from 'vscode';
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+import { CommonUtils } from '@salesforce/lwc-dev-mobile-core/lib/common/CommonUtils';
+import {
+    UEMParsedComponent,
+    UEMParsedField,
+    UEMParser,
+    UEMSourceLocation
+} from '../utils/uemParser';
+import { WorkspaceUtils } from '../utils/workspaceUtils';
+import { TemplateChooserCommand } from '../commands/wizard/templateChooserCommand';
+import { LandingPageEditorCommand } from '../commands/landingPage/landingPageEditorCommand';
+import { LwcGenerationCommand } from '../commands/wizard/lwcGenerationCommand';
+
+const landingPageTreeViewId =
+    'salesforcedx-vscode-offline-app.landingPageOutline';
+const refreshCommand =
+    'salesforcedx-vscode-offline-app.landingPageOutline.refresh';
+const revealCommand =
+    'salesforcedx-vscode-offline-app.landingPageOutline.reveal';
+const generateQuickActionsCommand =
+    'salesforcedx-vscode-offline-app.landingPageOutline.generateQuickActions';
+const openInOrgCommand =
+    'salesforcedx-vscode-offline-app.landingPageOutline.openInOrg';
+const removeCardCommand =
+    'salesforcedx-vscode-offline-app.landingPageOutline.removeCard';
+
+/**
+ * A node of the landing page outline. Cards keep their position, the container they are in and their
+ * index in it, so they can be removed.
+ */
+export type LandingPageTreeElement =
+    | {
+          kind: 'card';
+          component: UEMParsedComponent;
+          containerIndex: number;
+          index: number;
+      }
+    | { kind: 'component'; component: UEMParsedComponent }
+    | { kind: 'field'; field: UEMParsedField };
+
+/**
+ * Shows the cards of the active landing page, with their lists, record rows and fields, in the explorer.
+ */
+export class LandingPageTreeDataProvider
+    implements TreeDataProvider<LandingPageTreeElement>
+{
+    private changeTreeDataEmitter = new EventEmitter<
+        LandingPageTreeElement | undefined
+    >();
+
+    readonly onDidChangeTreeData: Event<LandingPageTreeElement | undefined> =
+        this.changeTreeDataEmitter.event;
+
+    // Same CLI as the Briefcase Builder page of the wizard. The api name comes from the landing
+    // page json and is run by the shell, so only word characters are let through.
+    static getOpenOrgListViewCommand(objectApiName: string): string {
+        if (!/^\w+$/.test(objectApiName)) {
+            throw new Error(
+                l10n.t("'{0}' is not a valid sObject api name.", objectApiName)
+            );
+        }
+        return `sfdx org open -p '/lightning/o/${objectApiName}/list'`;
+    }
+
+    refresh() {
+        this.changeTreeDataEmitter.fire(undefined);
+    }
+
+    /**
+     * @returns the path of the active landing page, landing_page.json by default, in the static
+     * resources of the project.
+     */
+    static getLandingPagePath(): string {
+        return path.join(
+            WorkspaceUtils.getWorkspaceDir(),
+            WorkspaceUtils.STATIC_RESOURCES_PATH,
+            TemplateChooserCommand.getActiveLandingPageName() +
+                TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION
+        );
+    }
+
+    async getChildren(
+        element?: LandingPageTreeElement
+    ): Promise<LandingPageTreeElement[]> {
+        if (!element) {
+            let text: string;
+            try {
+                text = await readFile(
+                    LandingPageTreeDataProvider.getLandingPagePath(),
+                    'utf8'
+                );
+            } catch {
+                // no landing page yet, the view shows its welcome content
+                return [];
+            }
+            const result = UEMParser.parseText(text);
+            return (result?.cards ?? []).map((component) => {
+                // view.regions.components.components[containerIndex].regions.components.components[index]
+                const [containerIndex, index] = component.path.filter(
+                    (key): key is number => typeof key === 'number'
+                );
+                return { kind: 'card', component, containerIndex, index };
+            });
+        }
+
+        if (element.kind === 'field') {
+            return [];
+        }
+        const children: LandingPageTreeElement[] =
+            element.component.components.map((component) => {
+                return { kind: 'component', component };
+            });
+        // a card reports the fields of its list, show them only once, under the list
+        if (element.kind === 'component') {
+            children.push(
+                ...element.component.fields.map((field) => {
+                    return { kind: 'field' as const, field };
+                })
+            );
+        }
+        return children;
+    }
+
+    getTreeItem(element: LandingPageTreeElement): TreeItem {
+        if (element.kind === 'field') {
+            const item = new TreeItem(
+                element.field.apiName,
+                TreeItemCollapsibleState.None
+            );
+            item.description = element.field.valueType;
+            item.iconPath = new ThemeIcon('symbol-field');
+            item.contextValue = 'field';
+            item.command = LandingPageTreeDataProvider.revealCommand(
+                element.field.location
+            );
+            return item;
+        }
+
+        const component = element.component;
+        const hasChildren =
+            component.components.length > 0 ||
+            (element.kind === 'component' && component.fields.length > 0);
+        const item = new TreeItem(
+            component.label ?? component.name ?? l10n.t('(unnamed)'),
+            hasChildren
+                ? element.kind === 'card'
+                    ? TreeItemCollapsibleState.Expanded
+                    : TreeItemCollapsibleState.Collapsed
+                : TreeItemCollapsibleState.None
+        );
+        item.description = [component.definition, component.objectApiName]
+            .filter((value) => value !== undefined)
+            .join(' · ');
+        item.iconPath = new ThemeIcon(
+            element.kind === 'card'
+                ? 'window'
+                : component.objectApiName !== undefined
+                  ? 'list-unordered'
+                  : 'symbol-object'
+        );
+        // ie: "card sobject", matched by the `when` clauses of the context menu
+        item.contextValue = [
+            element.kind,
+            component.objectApiName !== undefined ? 'sobject' : undefined
+        ]
+            .filter((value) => value !== undefined)
+            .join(' ');
+        item.command = LandingPageTreeDataProvider.revealCommand(
+            component.location
+        );
+        return item;
+    }
+
+    private static revealCommand(location: UEMSourceLocation | undefined) {
+        return location
+            ? {
+                  command: revealCommand,
+                  title: l10n.t('Reveal in Landing Page'),
+                  arguments: [location]
+              }
+            : undefined;
+    }
+
+    /**
+     * Opens the active landing page and selects the given location.
+     */
+    static async reveal(location: UEMSourceLocation) {
+        const document = await workspace.openTextDocument(
+            Uri.file(LandingPageTreeDataProvider.getLandingPagePath())
+        );
+        const editor = await window.showTextDocument(document);
+        const range = new Range(
+            document.positionAt(location.offset),
+            document.positionAt(location.offset + location.length)
+        );
+        editor.selection = new Selection(range.start, range.end);
+        editor.revealRange(
+            range,
+            TextEditorRevealType.InCenterIfOutsideViewport
+        );
+    }
+}
+
+export function registerTreeView(context: ExtensionContext) {
+    const treeDataProvider = new LandingPageTreeDataProvider();
+    const treeView = window.createTreeView(landingPageTreeViewId, {
+        treeDataProvider,
+        showCollapseAll: true
+    });
+    treeView.description = TemplateChooserCommand.getActiveLandingPageName();
+    context.subscriptions.push(treeView);
+
+    context.subscriptions.push(
+        workspace.onDidChangeConfiguration((event) => {
+            if (
+                event.affectsConfiguration(
+                    TemplateChooserCommand.ACTIVE_LANDING_PAGE_CONFIG_PROPERTY
+                )
+            ) {
+                treeView.description =
+                    TemplateChooserCommand.getActiveLandingPageName();
+                treeDataProvider.refresh();
+            }
+        })
+    );
+
+    try {
+        // any landing page, so that switching the active one needs no new watcher
+        const watcher = workspace.createFileSystemWatcher(
+            new RelativePattern(
+                path.dirname(LandingPageTreeDataProvider.getLandingPagePath()),
+                `${TemplateChooserCommand.LANDING_PAGE_FILENAME_PREFIX}*${TemplateChooserCommand.LANDING_PAGE_JSON_FILE_EXTENSION}`
+            )
+        );
+        watcher.onDidCreate(() => treeDataProvider.refresh());
+        watcher.onDidChange(() => treeDataProvider.refresh());
+        watcher.onDidDelete(() => treeDataProvider.refresh());
+        context.subscriptions.push(watcher);
+    } catch (err) {
+        // no workspace folder is opened
+        console.warn('Could not watch the landing page.', err);
+    }
+
+    context.subscriptions.push(
+        commands.registerCommand(refreshCommand, () =>
+            treeDataProvider.refresh()
+        ),
+        commands.registerCommand(
+            revealCommand,
+            async (location: UEMSourceLocation) => {
+                await LandingPageTreeDataProvider.reveal(location);
+            }
+        ),
+        commands.registerCommand(
+            generateQuickActionsCommand,
+            async (element: LandingPageTreeElement) => {
+                if (
+                    element.kind === 'field' ||
+                    element.component.objectApiName === undefined
+                ) {
+                    return;
+                }
+                const objectApiName = element.component.objectApiName;
+                try {
+                    await window.withProgress(
+                        {
+                            location: ProgressLocation.Notification,
+                            title: l10n.t(
+                                'Generating the LWC quick actions of {0}...',
+                                objectApiName
+                            )
+                        },
+                        async () => {
+                            await LwcGenerationCommand.generateQuickActionsForSObject(
+                                context.extensionUri,
+                                objectApiName
+                            );
+                        }
+                    );
+                } catch (err) {
+                    window.showErrorMessage(
+                        l10n.t(
+                            'Could not generate the quick actions of {0}: {1}',
+                            objectApiName,
+                            `${err}`
+                        )
+                    );
+                }
+            }
+        ),
+        commands.registerCommand(
+            openInOrgCommand,
+            async (element: LandingPageTreeElement) => {
+                if (
+                    element.kind === 'field' ||
+                    element.component.objectApiName === undefined
+                ) {
+                    return;
+                }
+                try {
+                    await CommonUtils.executeCommandAsync(
+                        LandingPageTreeDataProvider.getOpenOrgListViewCommand(
+                            element.component.objectApiName
+                        )
+                    );
+                } catch (err) {
+                    window.showErrorMessage(
+                        l10n.t('Could not open the org: {0}', `${err}`)
+                    );
+                }
+            }
+        ),
+        commands.registerCommand(
+            removeCardCommand,
+            async (element: LandingPageTreeElement) => {
+                if (element.kind !== 'card') {
+                    return;
+                }
+                const remove = l10n.t('Remove');
+                const answer = await window.showWarningMessage(
+                    l10n.t(
+                        "Remove the card '{0}' from the landing page?",
+                        element.component.label ?? element.component.name ?? ''
+                    ),
+                    { modal: true },
+                    remove
+                );
+                if (answer !== remove) {
+                    return;
+                }
+                try {
+                    await LandingPageEditorCommand.removeCard(
+                        element.containerIndex,
+                        element.index
+                    );
+                    treeDataProvider.refresh();
+                } catch (err) {
+                    window.showErrorMessage(
+                        l10n.t(
+                            'Could not remove the card: {0}',
+                            (err as Error).message
+                        )
+                    );
+                }
+            }
+        )
+    );
+}